@@ -1,8 +1,57 @@
-import { test, expect } from '@playwright/test';
+import { test, expect } from '@playwright/test'
 
-// See here how to get started:
-// https://playwright.dev/docs/intro
-test('visits the app root url', async ({ page }) => {
-  await page.goto('/');
-  await expect(page.locator('h1')).toHaveText('You did it!');
+// The app talks to mock-server.js (see playwright.config.ts), which serves
+// the seeded workspace in mock/craft-workspace.json
+const MOCK_API_URL = 'http://localhost:3002/api/v1'
+
+const COLLECTION_IDS: Record<string, string> = {
+  bookmarks: 'col-bookmarks',
+  rss: 'col-rss',
+  quotes: 'col-quotes',
+  decks: 'col-decks',
+  flashcards: 'col-flashcards',
+  artists: 'col-artists',
+  genres: 'col-genres',
+  playlists: 'col-playlists',
+}
+
+test.beforeEach(async ({ page }) => {
+  await page.addInitScript(
+    ({ apiUrl, collectionIds }) => {
+      // Only seed once so tests can still change settings within a page
+      if (localStorage.getItem('craft-api-url')) return
+      localStorage.setItem('craft-api-url', apiUrl)
+      localStorage.setItem('craft-space-id', 'mock-space')
+      for (const [key, id] of Object.entries(collectionIds)) {
+        localStorage.setItem(`collection-id-${key}`, id)
+      }
+    },
+    { apiUrl: MOCK_API_URL, collectionIds: COLLECTION_IDS },
+  )
+})
+
+test('loads the dashboard', async ({ page }) => {
+  await page.goto('/craftboard/')
+  await expect(page.locator('#app')).not.toBeEmpty()
+})
+
+test('shows active tasks from the mock workspace', async ({ page }) => {
+  await page.goto('/craftboard/#/tasks')
+  await expect(page.getByText('Review pull requests')).toBeVisible()
+})
+
+test('shows bookmarks from the mock collection', async ({ page }) => {
+  await page.goto('/craftboard/#/bookmarks')
+  await expect(page.getByText('Vue docs')).toBeVisible()
+})
+
+test('shows flashcard decks from the mock collection', async ({ page }) => {
+  await page.goto('/craftboard/#/flashcards')
+  await expect(page.getByText('Spanish basics')).toBeVisible()
+})
+
+test('settings point at the mock API', async ({ page }) => {
+  await page.goto('/craftboard/#/settings')
+  await page.getByText('API', { exact: true }).first().click()
+  await expect(page.locator('#api-url')).toHaveValue(MOCK_API_URL)
 })
@@ -20,6 +20,15 @@ export default defineConfigWithVueTs(
 
   pluginVue.configs['flat/essential'],
   vueTsConfigs.recommended,
+
+  {
+    // WidgetDataMap starts empty; each widget definition adds its entry by module augmentation
+    name: 'app/widget-data-map',
+    files: ['src/types/widget.ts'],
+    rules: {
+      '@typescript-eslint/no-empty-object-type': ['error', { allowInterfaces: 'always' }],
+    },
+  },
   
   {
     ...pluginVitest.configs.recommended,
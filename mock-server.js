@@ -0,0 +1,551 @@
+import http from 'http'
+import { readFileSync } from 'fs'
+import { URL, fileURLToPath } from 'url'
+import { dirname, join } from 'path'
+
+// Local stand-in for the Craft REST API, serving a seeded fixture workspace.
+// Point Settings > API URL at http://localhost:3002/api/v1 to use it.
+//
+// Environment:
+//   MOCK_PORT               port to listen on (default 3002)
+//   MOCK_WORKSPACE          path to a fixture JSON file (default mock/craft-workspace.json)
+//   MOCK_TOKEN              if set, requests must send "Authorization: Bearer <token>"
+//   MOCK_RATE_LIMIT_EVERY   if set to N, every Nth request answers 429 (to test retries)
+
+const PORT = process.env.MOCK_PORT || 3002
+const API_PREFIX = '/api/v1'
+const __dirname = dirname(fileURLToPath(import.meta.url))
+const WORKSPACE_PATH = process.env.MOCK_WORKSPACE || join(__dirname, 'mock/craft-workspace.json')
+const RATE_LIMIT_EVERY = parseInt(process.env.MOCK_RATE_LIMIT_EVERY || '0', 10)
+
+// Fixture dates are written relative to today ("@today", "@today-3", "@today+1T10:00:00Z")
+// so the demo data never goes stale
+const formatDate = (date) => date.toISOString().slice(0, 10)
+
+const resolveRelativeDates = (value) => {
+  if (Array.isArray(value)) return value.map(resolveRelativeDates)
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, val]) => [key, resolveRelativeDates(val)]),
+    )
+  }
+  if (typeof value === 'string') {
+    const match = value.match(/^@today([+-]\d+)?(T.*)?$/)
+    if (match) {
+      const date = new Date()
+      date.setUTCDate(date.getUTCDate() + parseInt(match[1] || '0', 10))
+      return formatDate(date) + (match[2] || '')
+    }
+  }
+  return value
+}
+
+const loadWorkspace = () => {
+  const raw = JSON.parse(readFileSync(WORKSPACE_PATH, 'utf-8'))
+  return resolveRelativeDates(raw)
+}
+
+const workspace = loadWorkspace()
+const today = formatDate(new Date())
+
+const clickableLink = (blockId) =>
+  `craftdocs://open?blockId=${blockId}&spaceId=${workspace.spaceId}`
+
+const toDocumentSummary = (doc, withMetadata) => {
+  const summary = {
+    id: doc.id,
+    title: doc.title,
+  }
+  if (doc.folderId) summary.folderId = doc.folderId
+  if (doc.dailyNoteDate) summary.dailyNoteDate = doc.dailyNoteDate
+  if (withMetadata) {
+    summary.clickableLink = clickableLink(doc.id)
+    summary.createdAt = doc.createdAt
+    summary.lastModifiedAt = doc.lastModifiedAt
+  }
+  return summary
+}
+
+const taskToBlock = (task) => {
+  const state = task.taskInfo?.state || 'todo'
+  const checkbox = state === 'done' ? '[x]' : state === 'canceled' ? '[~]' : '[ ]'
+  return {
+    id: task.id,
+    type: 'text',
+    listStyle: 'task',
+    markdown: `- ${checkbox} ${task.markdown}`,
+    taskInfo: task.taskInfo,
+  }
+}
+
+// Documents are served as a page block whose content holds its blocks plus its tasks
+const toBlockTree = (doc, withMetadata) => {
+  const tasks = workspace.tasks.filter((task) => task.location?.documentId === doc.id)
+  const withMeta = (block) =>
+    withMetadata
+      ? { ...block, metadata: { createdAt: doc.createdAt, lastModifiedAt: doc.lastModifiedAt } }
+      : block
+  return withMeta({
+    id: doc.id,
+    type: 'page',
+    markdown: `<page>${doc.title}</page>`,
+    content: [...(doc.blocks || []), ...tasks.map(taskToBlock)].map(withMeta),
+  })
+}
+
+const findBlock = (blocks, id) => {
+  for (const block of blocks) {
+    if (block.id === id) return block
+    const found = findBlock(block.content || [], id)
+    if (found) return found
+  }
+  return null
+}
+
+const flattenBlocks = (blocks) =>
+  blocks.flatMap((block) => [block, ...flattenBlocks(block.content || [])])
+
+// Mirrors the JSON Schema layout parsed by getCollectionSchema()
+const toCollectionSchema = (collection) => {
+  const properties = {}
+  for (const prop of collection.properties) {
+    const definition = { title: prop.name }
+    if (prop.type === 'relation') {
+      definition.type = 'object'
+      definition.properties = { relations: { type: 'array' } }
+    } else if (prop.type === 'multiselect') {
+      definition.type = 'array'
+      definition.items = { type: 'string' }
+    } else {
+      definition.type = prop.type
+    }
+    if (prop.options) {
+      definition.description = `Existing options: ${prop.options.map((o) => `"${o}"`).join(', ')}`
+    }
+    properties[prop.key] = definition
+  }
+  return {
+    name: collection.name,
+    properties: {
+      items: { items: { properties: { properties: { properties } } } },
+    },
+  }
+}
+
+const isOpen = (task) => (task.taskInfo?.state || 'todo') === 'todo'
+
+const tasksForScope = (scope, documentId) => {
+  const tasks = workspace.tasks
+  switch (scope) {
+    case 'inbox':
+      return tasks.filter((task) => task.location?.type === 'inbox' && isOpen(task))
+    case 'active':
+      return tasks.filter(
+        (task) =>
+          isOpen(task) &&
+          ((task.taskInfo?.scheduleDate && task.taskInfo.scheduleDate <= today) ||
+            (task.taskInfo?.deadlineDate && task.taskInfo.deadlineDate <= today)),
+      )
+    case 'upcoming':
+      return tasks.filter(
+        (task) => isOpen(task) && task.taskInfo?.scheduleDate && task.taskInfo.scheduleDate > today,
+      )
+    case 'logbook':
+      return tasks
+        .filter((task) => !isOpen(task))
+        .sort((a, b) =>
+          (b.completedAt || b.canceledAt || '').localeCompare(a.completedAt || a.canceledAt || ''),
+        )
+    case 'document':
+      return tasks.filter((task) => task.location?.documentId === documentId)
+    default:
+      return tasks
+  }
+}
+
+// Offset pagination: only applied when the client asks for a page size
+const paginate = (items, params) => {
+  const limit = parseInt(params.get('limit') || '0', 10)
+  if (!limit) return { items }
+  const offset = parseInt(params.get('offset') || '0', 10)
+  return {
+    items: items.slice(offset, offset + limit),
+    total: items.length,
+    hasMore: offset + limit < items.length,
+  }
+}
+
+const sendJson = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers })
+  res.end(JSON.stringify(body))
+}
+
+const notFound = (res, message = 'Not found') => sendJson(res, 404, { error: message })
+
+const readJsonBody = (req) =>
+  new Promise((resolve, reject) => {
+    let data = ''
+    req.on('data', (chunk) => {
+      data += chunk
+    })
+    req.on('end', () => {
+      try {
+        resolve(data ? JSON.parse(data) : undefined)
+      } catch (error) {
+        reject(error)
+      }
+    })
+    req.on('error', reject)
+  })
+
+// Routes are GET unless they set a method
+const routes = [
+  {
+    pattern: /^\/documents$/,
+    handler: (res, params) => {
+      const location = params.get('location')
+      const folderId = params.get('folderId')
+      const gte = params.get('dailyNoteDateGte')
+      const lte = params.get('dailyNoteDateLte')
+      const withMetadata = params.get('fetchMetadata') === 'true'
+
+      let docs = workspace.documents
+      if (location) {
+        docs = docs.filter((doc) => doc.location === location)
+      } else if (folderId) {
+        docs = docs.filter((doc) => doc.folderId === folderId)
+      } else {
+        // Like Craft, trash and templates are only listed when asked for explicitly
+        docs = docs.filter((doc) => doc.location !== 'trash' && doc.location !== 'templates')
+      }
+      if (gte) docs = docs.filter((doc) => doc.dailyNoteDate && doc.dailyNoteDate >= gte)
+      if (lte) docs = docs.filter((doc) => doc.dailyNoteDate && doc.dailyNoteDate <= lte)
+
+      sendJson(
+        res,
+        200,
+        paginate(
+          docs.map((doc) => toDocumentSummary(doc, withMetadata)),
+          params,
+        ),
+      )
+    },
+  },
+  {
+    pattern: /^\/documents\/search$/,
+    handler: (res, params) => {
+      const include = params.get('include')
+      const regexps = params.get('regexps')
+      let matcher
+      try {
+        matcher = regexps
+          ? new RegExp(regexps, 'i')
+          : { test: (text) => text.toLowerCase().includes((include || '').toLowerCase()) }
+      } catch {
+        return sendJson(res, 400, { error: 'Invalid regular expression' })
+      }
+
+      const items = []
+      for (const doc of workspace.documents) {
+        if (doc.location === 'trash') continue
+        const blocks = flattenBlocks(toBlockTree(doc, false).content)
+        for (const block of blocks) {
+          if (block.markdown && matcher.test(block.markdown)) {
+            items.push({
+              documentId: doc.id,
+              title: doc.title,
+              markdown: block.markdown,
+              dailyNoteDate: doc.dailyNoteDate,
+              createdAt: doc.createdAt,
+              lastModifiedAt: doc.lastModifiedAt,
+            })
+          }
+        }
+      }
+      sendJson(res, 200, paginate(items, params))
+    },
+  },
+  {
+    pattern: /^\/folders$/,
+    handler: (res) => {
+      const withCounts = (folder) => ({
+        ...folder,
+        documentCount: workspace.documents.filter((doc) => doc.folderId === folder.id).length,
+        folders: (folder.folders || []).map(withCounts),
+      })
+      sendJson(res, 200, { items: workspace.folders.map(withCounts) })
+    },
+  },
+  {
+    pattern: /^\/collections$/,
+    handler: (res) => {
+      sendJson(res, 200, {
+        items: workspace.collections.map((collection) => ({
+          id: collection.id,
+          name: collection.name,
+          itemCount: collection.items.length,
+          documentId: collection.documentId,
+        })),
+      })
+    },
+  },
+  {
+    pattern: /^\/collections\/([^/]+)\/schema$/,
+    handler: (res, params, [collectionId]) => {
+      const collection = workspace.collections.find((c) => c.id === collectionId)
+      if (!collection) return notFound(res, 'Collection not found')
+      sendJson(res, 200, toCollectionSchema(collection))
+    },
+  },
+  {
+    pattern: /^\/collections\/([^/]+)\/items$/,
+    handler: (res, params, [collectionId]) => {
+      const collection = workspace.collections.find((c) => c.id === collectionId)
+      if (!collection) return notFound(res, 'Collection not found')
+      sendJson(res, 200, paginate(collection.items, params))
+    },
+  },
+  {
+    pattern: /^\/collections\/([^/]+)\/items$/,
+    method: 'POST',
+    handler: (res, params, [collectionId], body) => {
+      const collection = workspace.collections.find((c) => c.id === collectionId)
+      if (!collection) return notFound(res, 'Collection not found')
+      if (!Array.isArray(body?.items)) return sendJson(res, 400, { error: 'items is required' })
+
+      const items = body.items.map((item, index) => ({
+        id: `item-${Date.now()}-${index}`,
+        title: item.title || '',
+        properties: item.properties || {},
+      }))
+      collection.items.push(...items)
+      sendJson(res, 200, { items })
+    },
+  },
+  {
+    pattern: /^\/collections\/([^/]+)\/items$/,
+    method: 'PUT',
+    handler: (res, params, [collectionId], body) => {
+      const collection = workspace.collections.find((c) => c.id === collectionId)
+      if (!collection) return notFound(res, 'Collection not found')
+      const updates = body?.itemsToUpdate
+      if (!Array.isArray(updates)) return sendJson(res, 400, { error: 'itemsToUpdate is required' })
+
+      const missing = updates.find((update) => !collection.items.some((i) => i.id === update.id))
+      if (missing) return notFound(res, `Item ${missing.id} not found`)
+
+      const items = updates.map((update) => {
+        const item = collection.items.find((i) => i.id === update.id)
+        if (update.title !== undefined) item.title = update.title
+        if (update.properties) {
+          // null clears a property
+          item.properties = item.properties || {}
+          for (const [key, value] of Object.entries(update.properties)) {
+            if (value === null) delete item.properties[key]
+            else item.properties[key] = value
+          }
+        }
+        return item
+      })
+      sendJson(res, 200, { items })
+    },
+  },
+  {
+    pattern: /^\/collections\/([^/]+)\/items$/,
+    method: 'DELETE',
+    handler: (res, params, [collectionId], body) => {
+      const collection = workspace.collections.find((c) => c.id === collectionId)
+      if (!collection) return notFound(res, 'Collection not found')
+      const ids = body?.idsToDelete
+      if (!Array.isArray(ids)) return sendJson(res, 400, { error: 'idsToDelete is required' })
+
+      collection.items = collection.items.filter((item) => !ids.includes(item.id))
+      sendJson(res, 200, { items: ids.map((id) => ({ id })) })
+    },
+  },
+  {
+    pattern: /^\/tasks$/,
+    handler: (res, params) => {
+      const tasks = tasksForScope(params.get('scope'), params.get('documentId'))
+      sendJson(res, 200, paginate(tasks, params))
+    },
+  },
+  {
+    pattern: /^\/tasks$/,
+    method: 'PUT',
+    handler: (res, params, pathParams, body) => {
+      const updates = body?.tasksToUpdate
+      if (!Array.isArray(updates)) return sendJson(res, 400, { error: 'tasksToUpdate is required' })
+
+      const missing = updates.find((update) => !workspace.tasks.some((t) => t.id === update.id))
+      if (missing) return notFound(res, `Task ${missing.id} not found`)
+
+      const items = updates.map((update) => {
+        const task = workspace.tasks.find((t) => t.id === update.id)
+        if (update.markdown !== undefined) task.markdown = update.markdown
+        if (update.taskInfo) {
+          // null clears a date
+          for (const [key, value] of Object.entries(update.taskInfo)) {
+            if (value === null) delete task.taskInfo[key]
+            else task.taskInfo[key] = value
+          }
+          const state = update.taskInfo.state
+          if (state !== undefined) {
+            const now = new Date().toISOString()
+            if (state === 'done') task.completedAt = task.completedAt || now
+            else delete task.completedAt
+            if (state === 'canceled') task.canceledAt = task.canceledAt || now
+            else delete task.canceledAt
+          }
+        }
+        return task
+      })
+      sendJson(res, 200, { items })
+    },
+  },
+  {
+    pattern: /^\/tasks$/,
+    method: 'POST',
+    handler: (res, params, pathParams, body) => {
+      const newTasks = body?.tasks
+      if (!Array.isArray(newTasks)) return sendJson(res, 400, { error: 'tasks is required' })
+
+      const items = []
+      for (const [index, newTask] of newTasks.entries()) {
+        const location = { type: newTask.location?.type || 'inbox' }
+        if (location.type === 'dailyNote') {
+          const doc = workspace.documents.find((d) => d.dailyNoteDate === newTask.location.date)
+          if (!doc) return notFound(res, 'Daily note not found')
+          Object.assign(location, { date: doc.dailyNoteDate, documentId: doc.id, title: doc.title })
+        } else if (location.type === 'document') {
+          const doc = workspace.documents.find((d) => d.id === newTask.location.documentId)
+          if (!doc) return notFound(res, 'Document not found')
+          Object.assign(location, { documentId: doc.id, title: doc.title })
+        }
+        items.push({
+          id: `task-${Date.now()}-${index}`,
+          markdown: newTask.markdown,
+          taskInfo: { state: 'todo', ...newTask.taskInfo },
+          location,
+        })
+      }
+      workspace.tasks.push(...items)
+      sendJson(res, 200, { items })
+    },
+  },
+  {
+    pattern: /^\/blocks$/,
+    handler: (res, params) => {
+      const withMetadata = params.get('fetchMetadata') === 'true'
+      const date = params.get('date')
+      const id = params.get('id')
+
+      if (date) {
+        const resolvedDate = date === 'today' ? today : date
+        const doc = workspace.documents.find((d) => d.dailyNoteDate === resolvedDate)
+        if (!doc) return notFound(res, 'Daily note not found')
+        return sendJson(res, 200, toBlockTree(doc, withMetadata))
+      }
+
+      const doc = workspace.documents.find((d) => d.id === id)
+      if (doc) return sendJson(res, 200, toBlockTree(doc, withMetadata))
+
+      // Any nested block (document blocks, collection item content)
+      const allBlocks = [
+        ...workspace.documents.map((d) => toBlockTree(d, withMetadata)),
+        ...workspace.collections.flatMap((c) =>
+          c.items.map((item) => ({ id: item.id, type: 'page', markdown: item.title, ...item })),
+        ),
+      ]
+      const block = findBlock(allBlocks, id)
+      if (!block) return notFound(res, 'Block not found')
+      sendJson(res, 200, block)
+    },
+  },
+  {
+    pattern: /^\/blocks\/search$/,
+    handler: (res, params) => {
+      const doc = workspace.documents.find((d) => d.id === params.get('blockId'))
+      if (!doc) return notFound(res, 'Document not found')
+      let matcher
+      try {
+        matcher = new RegExp(
+          params.get('pattern') || '',
+          params.get('caseSensitive') === 'true' ? '' : 'i',
+        )
+      } catch {
+        return sendJson(res, 400, { error: 'Invalid pattern' })
+      }
+      const items = flattenBlocks(toBlockTree(doc, false).content)
+        .filter((block) => block.markdown && matcher.test(block.markdown))
+        .map((block) => ({ blockId: block.id, markdown: block.markdown }))
+      sendJson(res, 200, { items })
+    },
+  },
+]
+
+let requestCount = 0
+
+const server = http.createServer(async (req, res) => {
+  // Enable CORS
+  res.setHeader('Access-Control-Allow-Origin', '*')
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS')
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization')
+  res.setHeader('Access-Control-Expose-Headers', 'Retry-After')
+
+  // Handle preflight requests
+  if (req.method === 'OPTIONS') {
+    res.writeHead(200)
+    res.end()
+    return
+  }
+
+  const url = new URL(req.url, `http://${req.headers.host}`)
+
+  // Health check endpoint
+  if (url.pathname === '/health') {
+    return sendJson(res, 200, { status: 'ok', workspace: WORKSPACE_PATH })
+  }
+
+  if (!url.pathname.startsWith(API_PREFIX)) {
+    return notFound(res)
+  }
+
+  if (process.env.MOCK_TOKEN && req.headers.authorization !== `Bearer ${process.env.MOCK_TOKEN}`) {
+    return sendJson(res, 401, { error: 'Unauthorized' })
+  }
+
+  requestCount++
+  if (RATE_LIMIT_EVERY > 0 && requestCount % RATE_LIMIT_EVERY === 0) {
+    return sendJson(res, 429, { error: 'Too many requests' }, { 'Retry-After': '1' })
+  }
+
+  let body
+  if (req.method !== 'GET') {
+    try {
+      body = await readJsonBody(req)
+    } catch {
+      return sendJson(res, 400, { error: 'Invalid JSON body' })
+    }
+  }
+
+  const path = url.pathname.slice(API_PREFIX.length) || '/'
+  for (const route of routes) {
+    const match = path.match(route.pattern)
+    if (match && req.method === (route.method || 'GET')) {
+      try {
+        route.handler(res, url.searchParams, match.slice(1).map(decodeURIComponent), body)
+      } catch (error) {
+        console.error('Mock API error:', error)
+        sendJson(res, 500, { error: 'Mock server error', message: error.message })
+      }
+      return
+    }
+  }
+
+  notFound(res)
+})
+
+server.listen(PORT, () => {
+  console.log(`Mock Craft API listening on http://localhost:${PORT}${API_PREFIX}`)
+})
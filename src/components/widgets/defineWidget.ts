@@ -0,0 +1,54 @@
+import type { Component } from 'vue'
+import type { Widget, WidgetData, WidgetType } from '../../types/widget'
+import type { PaneContextKey } from '../../composables/usePaneContext'
+
+export type WidgetCategory = 'Craft' | 'Productivity' | 'Stats' | 'Utilities'
+
+/**
+ * Everything the dashboard needs to know about a widget type.
+ * The component receives the widget as its `widget` prop and may emit
+ * `update:data` and `update:title`.
+ */
+export interface WidgetDefinition<T extends WidgetType = WidgetType> {
+  type: T
+  /** Shown in the add-widget modal and used as the title of new widgets */
+  name: string
+  description: string
+  icon: Component
+  category: WidgetCategory
+  /** Size of new widgets, in grid units */
+  defaultSize: { w: number; h: number }
+  component: Component
+  /** Data of new widgets */
+  defaultData?: () => WidgetData<T>
+  /**
+   * Data the widget keeps for itself (cached totals, timer state, ...) rather than settings
+   * the user chose. Changes to these alone are not recorded in the undo history.
+   */
+  transientData?: (keyof WidgetData<T>)[]
+  /**
+   * Data to put in a shared pane, for widgets that keep their content outside `widget.data`.
+   * Defaults to `widget.data`.
+   */
+  shareData?(widget: Widget<T>): WidgetData<T>
+  /**
+   * Data that must not come from someone else, such as raw HTML. Left out when a pane is
+   * shared, and removed again when a shared pane is imported.
+   */
+  unsafeData?: (keyof WidgetData<T>)[]
+  /**
+   * Selections the widget shares with the other widgets of its pane once it's linked.
+   * Widgets without this can't be linked.
+   */
+  context?: { publishes: PaneContextKey[]; follows: PaneContextKey[] }
+  /** Hide the widget from the add-widget modal unless this returns true */
+  condition?: () => boolean
+}
+
+/**
+ * Declare a widget type. Put the definition as the default export of a module in
+ * ./definitions and the registry picks it up.
+ */
+export const defineWidget = <T extends WidgetType>(
+  definition: WidgetDefinition<T>,
+): WidgetDefinition<T> => definition
@@ -0,0 +1,23 @@
+import { Bookmark } from 'lucide-vue-next'
+import BookmarkWidget from '../BookmarkWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface BookmarkWidgetData {
+  bookmarkId?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    bookmark: BookmarkWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'bookmark',
+  name: 'Bookmark',
+  description: 'Display a single bookmark from your Bookmarks collection',
+  icon: Bookmark,
+  category: 'Craft',
+  defaultSize: { w: 5, h: 3 },
+  component: BookmarkWidget,
+})
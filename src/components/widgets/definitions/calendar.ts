@@ -0,0 +1,29 @@
+import { CalendarDays } from 'lucide-vue-next'
+import CalendarWidget from '../CalendarWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export type CalendarWidgetMode = 'agenda' | 'day' | 'month'
+
+export interface CalendarWidgetData {
+  mode?: CalendarWidgetMode
+  /** Calendars shown, out of the ones set up in Settings. Empty or missing means all. */
+  calendarUrls?: string[]
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    calendar: CalendarWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'calendar',
+  name: 'Calendar',
+  description: 'Upcoming events from your calendars as an agenda, a day timeline or a month',
+  icon: CalendarDays,
+  category: 'Productivity',
+  defaultSize: { w: 7, h: 6 },
+  component: CalendarWidget,
+  defaultData: () => ({ mode: 'agenda' }),
+  context: { publishes: ['date'], follows: ['date'] },
+})
@@ -0,0 +1,20 @@
+import { Clock } from 'lucide-vue-next'
+import ClockWidget from '../ClockWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    // No settings
+    clock: object
+  }
+}
+
+export default defineWidget({
+  type: 'clock',
+  name: 'Clock',
+  description: 'Display current time',
+  icon: Clock,
+  category: 'Utilities',
+  defaultSize: { w: 6, h: 3 },
+  component: ClockWidget,
+})
@@ -0,0 +1,27 @@
+import { Library } from 'lucide-vue-next'
+import CollectionChartWidget from '../CollectionChartWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface CollectionChartWidgetData {
+  // Totals of the last load
+  lastUpdated?: number | null
+  totalCollections?: number
+  totalItems?: number
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    'collection-chart': CollectionChartWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'collection-chart',
+  name: 'Collection Stats',
+  description: 'View charts and statistics about your collections',
+  icon: Library,
+  category: 'Stats',
+  defaultSize: { w: 10, h: 8 },
+  component: CollectionChartWidget,
+  transientData: ['lastUpdated', 'totalCollections', 'totalItems'],
+})
@@ -0,0 +1,31 @@
+import { Library } from 'lucide-vue-next'
+import CollectionWidget from '../CollectionWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface CollectionWidgetData {
+  collectionId?: string
+  collectionName?: string
+  documentId?: string
+  /** Select property the board view groups items by */
+  boardProperty?: string
+  /** Properties shown on the board cards, besides the title */
+  boardFields?: string[]
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    collection: CollectionWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'collection',
+  name: 'Collection',
+  description: 'Display data from your Craft collections in table, gallery or board view',
+  icon: Library,
+  category: 'Craft',
+  defaultSize: { w: 14, h: 4 },
+  component: CollectionWidget,
+  transientData: ['collectionName', 'documentId'],
+  context: { publishes: ['collectionItem', 'tag'], follows: ['tag', 'date'] },
+})
@@ -0,0 +1,27 @@
+import { Calendar } from 'lucide-vue-next'
+import DailyNoteWidget from '../DailyNoteWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface DailyNoteWidgetData {
+  /** Date shown, as YYYY-MM-DD */
+  currentDate?: string
+  documentId?: string | null
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    'daily-note': DailyNoteWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'daily-note',
+  name: 'Daily Note',
+  description: "View today's daily note from Craft with date navigation",
+  icon: Calendar,
+  category: 'Craft',
+  defaultSize: { w: 8, h: 4 },
+  component: DailyNoteWidget,
+  transientData: ['currentDate', 'documentId'],
+  context: { publishes: ['date', 'document', 'tag'], follows: ['date'] },
+})
@@ -0,0 +1,25 @@
+import { CheckSquare } from 'lucide-vue-next'
+import DocumentTasksWidget from '../DocumentTasksWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface DocumentTasksWidgetData {
+  documentId?: string
+  documentTitle?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    'document-tasks': DocumentTasksWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'document-tasks',
+  name: 'Document',
+  description: 'Display tasks from a specific Craft document',
+  icon: CheckSquare,
+  category: 'Craft',
+  defaultSize: { w: 8, h: 3 },
+  component: DocumentTasksWidget,
+  context: { publishes: ['document'], follows: ['document'] },
+})
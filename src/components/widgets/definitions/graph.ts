@@ -0,0 +1,28 @@
+import { Network } from 'lucide-vue-next'
+import GraphWidget from '../GraphWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface GraphWidgetData {
+  mode?: 'folder' | 'tag'
+  /** Folder mode */
+  rootId?: string
+  rootTitle?: string
+  /** Tag mode */
+  tagName?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    graph: GraphWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'graph',
+  name: 'Graph',
+  description: 'Visualize relationships between documents and folders',
+  icon: Network,
+  category: 'Craft',
+  defaultSize: { w: 6, h: 3 },
+  component: GraphWidget,
+})
@@ -0,0 +1,30 @@
+import { Flame } from 'lucide-vue-next'
+import HabitWidget from '../HabitWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface HabitWidgetData {
+  /** Collection with one item per check-in */
+  collectionId?: string
+  collectionName?: string
+  /** Date property of a check-in. Defaults to the first date property of the collection. */
+  dateProperty?: string
+  /** Property naming the habit. Defaults to a "Habit" property, or else the item title. */
+  habitProperty?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    habit: HabitWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'habit',
+  name: 'Habit Tracker',
+  description: 'Streaks and a heatmap of the habits you check in to a Craft collection',
+  icon: Flame,
+  category: 'Productivity',
+  defaultSize: { w: 8, h: 6 },
+  component: HabitWidget,
+  transientData: ['collectionName'],
+})
@@ -0,0 +1,26 @@
+import { Monitor } from 'lucide-vue-next'
+import IframeWidget from '../IframeWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface IframeWidgetData {
+  iframeUrl?: string
+  iframeCode?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    iframe: IframeWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'iframe',
+  name: 'iFrame',
+  description: 'Embed external content via URL or iframe code',
+  icon: Monitor,
+  category: 'Utilities',
+  defaultSize: { w: 8, h: 4 },
+  component: IframeWidget,
+  // Shared iframes keep the URL taken from the code
+  unsafeData: ['iframeCode'],
+})
@@ -0,0 +1,28 @@
+import { FileText } from 'lucide-vue-next'
+import MarkdownWidget from '../MarkdownWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface MarkdownWidgetData {
+  /** Initial markdown; edits are kept in localStorage */
+  markdown?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    markdown: MarkdownWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'markdown',
+  name: 'Scratchpad',
+  description: 'Write and preview markdown notes',
+  icon: FileText,
+  category: 'Productivity',
+  defaultSize: { w: 5, h: 3 },
+  component: MarkdownWidget,
+  shareData: (widget) => ({
+    ...widget.data,
+    markdown: localStorage.getItem(`widget-${widget.id}`) ?? widget.data?.markdown,
+  }),
+})
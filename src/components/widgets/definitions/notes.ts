@@ -0,0 +1,32 @@
+import { CheckSquare } from 'lucide-vue-next'
+import NotesWidget from '../NotesWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface NotesWidgetData {
+  /** Initial items; edits are kept in localStorage */
+  notes?: { id: string; text: string; completed: boolean }[]
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    notes: NotesWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'notes',
+  name: 'Checklist',
+  description: 'Simple checklist for tasks',
+  icon: CheckSquare,
+  category: 'Productivity',
+  defaultSize: { w: 6, h: 3 },
+  component: NotesWidget,
+  shareData: (widget) => {
+    const saved = localStorage.getItem(`widget-${widget.id}`)
+    try {
+      return { ...widget.data, notes: saved ? JSON.parse(saved) : widget.data?.notes }
+    } catch {
+      return { ...widget.data }
+    }
+  },
+})
@@ -0,0 +1,25 @@
+import { Link as LinkIcon } from 'lucide-vue-next'
+import PinBlockWidget from '../PinBlockWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface PinBlockWidgetData {
+  blockId?: string
+  documentId?: string
+  blockTitle?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    'pin-block': PinBlockWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'pin-block',
+  name: 'Block',
+  description: 'Go directly to a Craft Block',
+  icon: LinkIcon,
+  category: 'Craft',
+  defaultSize: { w: 5, h: 3 },
+  component: PinBlockWidget,
+})
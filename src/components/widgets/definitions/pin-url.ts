@@ -0,0 +1,27 @@
+import { ExternalLink } from 'lucide-vue-next'
+import PinUrlWidget from '../PinUrlWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface PinUrlWidgetData {
+  externalUrl?: string
+  externalTitle?: string
+  externalImage?: string
+  isImageExpanded?: boolean
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    'pin-url': PinUrlWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'pin-url',
+  name: 'Pin URL',
+  description: 'Pin external links with preview',
+  icon: ExternalLink,
+  category: 'Utilities',
+  defaultSize: { w: 5, h: 3 },
+  component: PinUrlWidget,
+  transientData: ['isImageExpanded'],
+})
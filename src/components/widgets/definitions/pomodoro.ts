@@ -0,0 +1,40 @@
+import { Timer } from 'lucide-vue-next'
+import PomodoroTimerWidget from '../PomodoroTimerWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface PomodoroWidgetData {
+  timerType?: 'work' | 'shortBreak' | 'longBreak'
+  timeRemaining?: number
+  completedPomodoros?: number
+  isRunning?: boolean
+  isPaused?: boolean
+  startTimestamp?: number | null
+  timeRemainingAtStart?: number | null
+  pausedTimeRemaining?: number | null
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    pomodoro: PomodoroWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'pomodoro',
+  name: 'Pomodoro Timer',
+  description: 'Focus timer with 25-minute work sessions and breaks',
+  icon: Timer,
+  category: 'Productivity',
+  defaultSize: { w: 6, h: 4 },
+  component: PomodoroTimerWidget,
+  transientData: [
+    'timerType',
+    'timeRemaining',
+    'completedPomodoros',
+    'isRunning',
+    'isPaused',
+    'startTimestamp',
+    'timeRemainingAtStart',
+    'pausedTimeRemaining',
+  ],
+})
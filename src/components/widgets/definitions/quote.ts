@@ -0,0 +1,23 @@
+import { Quote } from 'lucide-vue-next'
+import QuoteWidget from '../QuoteWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface QuoteWidgetData {
+  quoteId?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    quote: QuoteWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'quote',
+  name: 'Quote',
+  description: 'Display a random quote from your Quotes collection',
+  icon: Quote,
+  category: 'Craft',
+  defaultSize: { w: 5, h: 3 },
+  component: QuoteWidget,
+})
@@ -0,0 +1,24 @@
+import { Rss } from 'lucide-vue-next'
+import RSSWidget from '../RSSWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface RSSWidgetData {
+  /** Item of the RSS collection whose feed is shown */
+  rssItemId?: string
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    rss: RSSWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'rss',
+  name: 'RSS Feed',
+  description: 'Display a single RSS feed from your RSS collection',
+  icon: Rss,
+  category: 'Craft',
+  defaultSize: { w: 6, h: 5 },
+  component: RSSWidget,
+})
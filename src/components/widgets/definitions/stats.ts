@@ -0,0 +1,28 @@
+import { BarChart3 } from 'lucide-vue-next'
+import WorkspaceStatsWidget from '../WorkspaceStatsWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface WorkspaceStatsWidgetData {
+  // Totals of the last load
+  totalDocuments?: number
+  totalDailyNotes?: number
+  totalCollections?: number
+  totalFolders?: number
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    stats: WorkspaceStatsWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'stats',
+  name: 'Workspace Stats',
+  description: 'View statistics about your Craft workspace',
+  icon: BarChart3,
+  category: 'Stats',
+  defaultSize: { w: 10, h: 8 },
+  component: WorkspaceStatsWidget,
+  transientData: ['totalDocuments', 'totalDailyNotes', 'totalCollections', 'totalFolders'],
+})
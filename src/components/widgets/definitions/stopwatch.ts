@@ -0,0 +1,20 @@
+import { TimerReset } from 'lucide-vue-next'
+import StopwatchWidget from '../StopwatchWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    // State is kept in localStorage
+    stopwatch: object
+  }
+}
+
+export default defineWidget({
+  type: 'stopwatch',
+  name: 'Stopwatch',
+  description: 'Track elapsed time with start, pause, and reset',
+  icon: TimerReset,
+  category: 'Productivity',
+  defaultSize: { w: 5, h: 3 },
+  component: StopwatchWidget,
+})
@@ -0,0 +1,27 @@
+import { CheckSquare } from 'lucide-vue-next'
+import TaskStatsWidget from '../TaskStatsWidget.vue'
+import { defineWidget } from '../defineWidget'
+
+export interface TaskStatsWidgetData {
+  // Totals of the last load
+  lastUpdated?: number | null
+  totalTasks?: number
+  overdueCount?: number
+}
+
+declare module '../../../types/widget' {
+  interface WidgetDataMap {
+    'task-stats': TaskStatsWidgetData
+  }
+}
+
+export default defineWidget({
+  type: 'task-stats',
+  name: 'Task Stats',
+  description: 'View charts and statistics about your tasks',
+  icon: CheckSquare,
+  category: 'Stats',
+  defaultSize: { w: 10, h: 8 },
+  component: TaskStatsWidget,
+  transientData: ['lastUpdated', 'totalTasks', 'overdueCount'],
+})
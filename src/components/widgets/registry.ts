@@ -0,0 +1,45 @@
+import type { WidgetType } from '../../types/widget'
+import type { WidgetCategory, WidgetDefinition } from './defineWidget'
+
+/**
+ * Registry of all widget types.
+ * Every module in ./definitions default-exports a definition (see defineWidget), so adding
+ * a widget type is a matter of adding its component and its definition module.
+ */
+
+const modules = import.meta.glob<{ default: WidgetDefinition }>('./definitions/*.ts', {
+  eager: true,
+})
+
+const definitions = new Map<string, WidgetDefinition>(
+  Object.values(modules).map((module) => [module.default.type, module.default]),
+)
+
+export const getWidgetDefinition = <T extends WidgetType>(
+  type: T,
+): WidgetDefinition<T> | undefined => {
+  return definitions.get(type) as WidgetDefinition<T> | undefined
+}
+
+export const getWidgetDefinitions = (): WidgetDefinition[] => {
+  return [...definitions.values()]
+}
+
+/**
+ * Widget types grouped by category, both sorted by name
+ */
+export const getWidgetCategories = (): { name: WidgetCategory; widgets: WidgetDefinition[] }[] => {
+  const categories = new Map<WidgetCategory, WidgetDefinition[]>()
+  getWidgetDefinitions().forEach((definition) => {
+    const widgets = categories.get(definition.category) || []
+    widgets.push(definition)
+    categories.set(definition.category, widgets)
+  })
+
+  return [...categories.entries()]
+    .map(([name, widgets]) => ({
+      name,
+      widgets: widgets.sort((a, b) => a.name.localeCompare(b.name)),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name))
+}
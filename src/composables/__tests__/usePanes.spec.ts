@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Widget } from '../../types/widget'
+import { PANES_SCHEMA_VERSION } from '../../utils/paneSchema'
+import { PANES_STORAGE_KEY, usePanes } from '../usePanes'
+
+vi.mock('../../components/widgets/registry', () => ({
+  getWidgetDefinition: (type: string) => (type === 'notes' ? {} : undefined),
+}))
+
+const notes: Widget = { id: 'w1', type: 'notes', title: 'Notes', x: 0, y: 0, w: 6, h: 4, data: {} }
+
+describe('usePanes', () => {
+  beforeEach(() => {
+    localStorage.clear()
+    vi.restoreAllMocks()
+  })
+
+  it('adds a Main pane when a stored document has no panes left', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    localStorage.setItem(PANES_STORAGE_KEY, '{"version": 1, "panes": [')
+    const { panes, activePaneId, quarantine, loadPanes } = usePanes()
+
+    loadPanes()
+
+    expect(panes.value).toEqual([{ id: 'default', name: 'Main', widgets: [] }])
+    expect(activePaneId.value).toBe('default')
+    expect(quarantine.value).toHaveLength(1)
+  })
+
+  it('adds a Main pane when every pane was empty after migrating', () => {
+    localStorage.setItem(
+      PANES_STORAGE_KEY,
+      JSON.stringify({ version: PANES_SCHEMA_VERSION, panes: [], quarantine: [] }),
+    )
+    const { panes, loadPanes } = usePanes()
+
+    loadPanes()
+
+    expect(panes.value.map((pane) => pane.name)).toEqual(['Main'])
+  })
+
+  it('undoes and redoes recorded edits', () => {
+    localStorage.setItem(
+      PANES_STORAGE_KEY,
+      JSON.stringify([{ id: 'p1', name: 'Work', widgets: [] }]),
+    )
+    const { panes, loadPanes, recordHistory, undo, redo, canUndo, canRedo } = usePanes()
+    loadPanes()
+
+    recordHistory('Add widget')
+    panes.value[0]?.widgets.push(notes)
+
+    undo()
+    expect(panes.value[0]?.widgets).toEqual([])
+    expect(canRedo.value).toBe(true)
+
+    redo()
+    expect(panes.value[0]?.widgets).toEqual([notes])
+    expect(canUndo.value).toBe(true)
+    expect(canRedo.value).toBe(false)
+  })
+
+  it('forgets the history when the panes are reloaded', () => {
+    localStorage.setItem(
+      PANES_STORAGE_KEY,
+      JSON.stringify([{ id: 'p1', name: 'Work', widgets: [] }]),
+    )
+    const { loadPanes, recordHistory, canUndo } = usePanes()
+    loadPanes()
+
+    recordHistory('Rename pane')
+    loadPanes()
+
+    expect(canUndo.value).toBe(false)
+  })
+})
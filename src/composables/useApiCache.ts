@@ -1,45 +1,70 @@
-import { getCacheExpiryMs } from '../utils/craftApi'
+import { getCacheExpiryMsFor, getStaleWhileRevalidate } from '../utils/craftApi'
+import { profileKey } from '../utils/profiles'
+import {
+  getCacheEntry,
+  setCacheEntry,
+  deleteCacheEntry,
+  deleteCacheEntriesWithPrefix,
+  scheduleCacheBudget,
+  getCacheBudget,
+} from '../utils/cacheStorage'
+import { onCacheChange } from '../utils/cacheSync'
+import { useGlobalLoadingStore } from '../stores/globalLoading'
 
-interface CachedData<T> {
-  data: T
-  timestamp: number
+// Cache keys with a background refresh in flight, shared by all cache instances
+const revalidatingKeys = new Set<string>()
+
+/**
+ * A store's cache namespace and how long its data stays fresh.
+ * The TTL can be overridden per namespace in Settings > General.
+ */
+export interface CachePolicy {
+  prefix: string
+  label: string
+  defaultTtlMinutes: number
 }
 
 /**
- * Generic composable for managing API cache with localStorage
- * Provides reusable cache methods for all API stores
+ * Generic composable for managing API cache in IndexedDB
+ * Provides reusable cache methods for all API stores. All methods are async;
+ * data is stored as a structured clone, so Dates, Maps and Sets survive a round trip.
  *
  * @param cachePrefix - Prefix for cache keys (e.g., 'tags-cache-', 'rss-cache-')
+ * @param defaultTtlMinutes - How long entries stay fresh unless overridden in Settings
+ *   (defaults to the global cache expiry)
  * @returns Object with cache management methods
  */
-export function useApiCache(cachePrefix: string) {
+export function useApiCache(cachePrefix: string, defaultTtlMinutes?: number) {
   /**
-   * Generate cache key from identifier
+   * Generate cache key from identifier, namespaced to the active profile
    */
   const getCacheKey = (identifier: string): string => {
-    return `${cachePrefix}${identifier}`
+    return profileKey(`${cachePrefix}${identifier}`)
   }
 
+  const getExpiryMs = (): number => getCacheExpiryMsFor(cachePrefix, defaultTtlMinutes)
+
   /**
    * Get cached data if valid (not expired)
    */
-  const getCachedData = <T>(identifier: string): T | null => {
+  const getCachedData = async <T>(identifier: string): Promise<T | null> => {
     try {
       const cacheKey = getCacheKey(identifier)
-      const cached = localStorage.getItem(cacheKey)
-      if (!cached) return null
+      const entry = await getCacheEntry<T>(cacheKey)
+      if (!entry) return null
 
-      const { data, timestamp } = JSON.parse(cached) as CachedData<T>
       const now = Date.now()
-      const cacheExpiryMs = getCacheExpiryMs()
+      const cacheExpiryMs = getExpiryMs()
 
       // Check if cache is still valid
-      if (cacheExpiryMs > 0 && now - timestamp < cacheExpiryMs) {
-        return data
+      if (cacheExpiryMs > 0 && now - entry.timestamp < cacheExpiryMs) {
+        return entry.data
       }
 
-      // Cache expired, remove it
-      localStorage.removeItem(cacheKey)
+      // Cache expired: keep it around for stale-while-revalidate, otherwise remove it
+      if (!getStaleWhileRevalidate()) {
+        await deleteCacheEntry(cacheKey)
+      }
       return null
     } catch (err) {
       console.error('Error reading cache:', err)
@@ -48,28 +73,77 @@ export function useApiCache(cachePrefix: string) {
   }
 
   /**
-   * Save data to cache with timestamp
+   * Save data to cache with timestamp. Once the current batch of writes is done, least
+   * recently used entries are evicted if the namespace is over its size budget
    */
-  const setCachedData = <T>(identifier: string, data: T): void => {
+  const setCachedData = async <T>(identifier: string, data: T): Promise<void> => {
+    const cacheKey = getCacheKey(identifier)
     try {
-      const cacheKey = getCacheKey(identifier)
-      const cacheData: CachedData<T> = {
-        data,
-        timestamp: Date.now(),
-      }
-      localStorage.setItem(cacheKey, JSON.stringify(cacheData))
+      await setCacheEntry(cacheKey, data)
+      scheduleCacheBudget(getCacheKey(''), getCacheBudget(cachePrefix), cacheKey)
     } catch (err) {
       console.error('Error saving cache:', err)
     }
   }
 
+  /**
+   * Stale-while-revalidate read, for when getCachedData() found nothing fresh.
+   * Returns the expired data right away and refreshes it in the background: the result of
+   * `fetchFresh` is cached and handed to `onFresh` so the store can swap it in.
+   * Returns null when there is nothing to serve (or the mode is off) so the caller loads normally.
+   */
+  const getStaleData = async <T>(
+    identifier: string,
+    fetchFresh: () => Promise<T>,
+    onFresh: (data: T) => void,
+  ): Promise<T | null> => {
+    if (!getStaleWhileRevalidate() || getExpiryMs() === 0) return null
+
+    const cacheKey = getCacheKey(identifier)
+    try {
+      const entry = await getCacheEntry<T>(cacheKey)
+      if (!entry) return null
+
+      if (!revalidatingKeys.has(cacheKey)) {
+        revalidatingKeys.add(cacheKey)
+        revalidate(cacheKey, identifier, fetchFresh, onFresh)
+      }
+      return entry.data
+    } catch (err) {
+      console.error('Error reading stale cache:', err)
+      return null
+    }
+  }
+
+  const revalidate = async <T>(
+    cacheKey: string,
+    identifier: string,
+    fetchFresh: () => Promise<T>,
+    onFresh: (data: T) => void,
+  ): Promise<void> => {
+    const globalLoadingStore = useGlobalLoadingStore()
+    globalLoadingStore.startRevalidating(cacheKey)
+    let updated = false
+    try {
+      const data = await fetchFresh()
+      await setCachedData(identifier, data)
+      onFresh(data)
+      updated = true
+    } catch (err) {
+      // Keep showing the stale data; the next load tries again
+      console.error('Error revalidating cache:', err)
+    } finally {
+      revalidatingKeys.delete(cacheKey)
+      globalLoadingStore.stopRevalidating(cacheKey, updated)
+    }
+  }
+
   /**
    * Clear cache for specific identifier
    */
-  const clearCache = (identifier: string): void => {
+  const clearCache = async (identifier: string): Promise<void> => {
     try {
-      const cacheKey = getCacheKey(identifier)
-      localStorage.removeItem(cacheKey)
+      await deleteCacheEntry(getCacheKey(identifier))
     } catch (err) {
       console.error('Error clearing cache:', err)
     }
@@ -78,24 +152,57 @@ export function useApiCache(cachePrefix: string) {
   /**
    * Clear all cache entries with the given prefix
    */
-  const clearAllCache = (): void => {
+  const clearAllCache = async (): Promise<void> => {
     try {
-      const keys = Object.keys(localStorage)
-      keys.forEach((key) => {
-        if (key.startsWith(cachePrefix)) {
-          localStorage.removeItem(key)
-        }
-      })
+      await deleteCacheEntriesWithPrefix(profileKey(cachePrefix))
     } catch (err) {
       console.error('Error clearing all cache:', err)
     }
   }
 
+  /**
+   * Listen for cache writes and invalidations made by other tabs, so the store can show
+   * their data without its own API call. `identifier` is null when the whole namespace
+   * was cleared; `data` is null when the entry was removed or expired.
+   * Returns a function that removes the listener.
+   */
+  const onRemoteChange = <T>(
+    handler: (identifier: string | null, data: T | null) => void,
+  ): (() => void) => {
+    return onCacheChange((change) => {
+      // Resolved per message, so it follows the active profile
+      const prefix = getCacheKey('')
+      switch (change.type) {
+        case 'set':
+          if (change.key.startsWith(prefix)) {
+            const identifier = change.key.slice(prefix.length)
+            handler(identifier, change.timestamp > 0 ? (change.data as T) : null)
+          }
+          break
+        case 'delete':
+          if (change.key.startsWith(prefix)) {
+            handler(change.key.slice(prefix.length), null)
+          }
+          break
+        case 'delete-prefix':
+          if (prefix.startsWith(change.prefix)) {
+            handler(null, null)
+          }
+          break
+        case 'clear':
+          handler(null, null)
+          break
+      }
+    })
+  }
+
   return {
     getCacheKey,
     getCachedData,
+    getStaleData,
     setCachedData,
     clearCache,
     clearAllCache,
+    onRemoteChange,
   }
 }
@@ -0,0 +1,16 @@
+import { computed, ref } from 'vue'
+import { getBreakpoint } from '../utils/gridLayouts'
+
+const width = ref(window.innerWidth)
+
+window.addEventListener('resize', () => {
+  width.value = window.innerWidth
+})
+
+const breakpoint = computed(() => getBreakpoint(width.value))
+
+export const useBreakpoint = () => {
+  return {
+    breakpoint,
+  }
+}
@@ -17,7 +17,7 @@ export function useKeyboardShortcuts(options: {
   isDashboard: () => boolean
 }) {
   const router = useRouter()
-  const { panes, switchPane } = usePanes()
+  const { panes, switchPane, undo, redo } = usePanes()
   const { toggleViewMode } = useWidgetView()
 
   const isInputFocused = (): boolean => {
@@ -35,6 +35,18 @@ export function useKeyboardShortcuts(options: {
 
     const key = e.key.toUpperCase()
 
+    // Ctrl/Cmd+Z deshace y Ctrl/Cmd+Shift+Z rehace cambios en panes y widgets (solo en dashboard)
+    if (key === 'Z' && (e.metaKey || e.ctrlKey) && !e.altKey) {
+      if (!options.isDashboard()) return
+      e.preventDefault()
+      if (e.shiftKey) {
+        redo()
+      } else {
+        undo()
+      }
+      return
+    }
+
     // Números 1-9 para navegación del menú
     if (/^[1-9]$/.test(e.key)) {
       // No interferir con shortcuts del navegador (cmd+1, ctrl+1, etc.)
@@ -0,0 +1,73 @@
+import { computed, ref, watch } from 'vue'
+import type { CommonWidgetData, Widget } from '../types/widget'
+import { usePanes } from './usePanes'
+
+/**
+ * Selections widgets share with the other widgets of their pane, e.g. the day shown in a
+ * Daily Note can drive the document a Document widget shows. Only linked widgets (toggled in
+ * the widget menu) publish or follow selections; the widget definition lists which ones.
+ */
+export interface PaneContext {
+  document: { id: string; title?: string }
+  /** Day, as YYYY-MM-DD */
+  date: string
+  /** Tag name, without the leading # */
+  tag: string
+  collectionItem: { collectionId: string; id: string; title?: string }
+}
+
+export type PaneContextKey = keyof PaneContext
+
+// A null value clears the selection
+type PaneContextEntries = {
+  [K in PaneContextKey]?: { value: PaneContext[K] | null; sourceId: string }
+}
+
+// Latest selections, per pane id. Kept in memory only.
+const contexts = ref<Record<string, PaneContextEntries>>({})
+
+export function usePaneContext(widget: () => Widget) {
+  const { activePaneId } = usePanes()
+  // Widgets are only mounted while their pane is active
+  const paneId = activePaneId.value
+
+  const isLinked = computed(() => (widget().data as CommonWidgetData | undefined)?.linked === true)
+
+  const publish = <K extends PaneContextKey>(key: K, value: PaneContext[K] | null) => {
+    if (!isLinked.value) return
+    const entries: PaneContextEntries = contexts.value[paneId] || {}
+    contexts.value[paneId] = { ...entries, [key]: { value, sourceId: widget().id } }
+  }
+
+  /**
+   * Current selection from the other widgets, or undefined if there is none
+   */
+  const getSelection = <K extends PaneContextKey>(key: K): PaneContext[K] | null | undefined => {
+    const entry = contexts.value[paneId]?.[key]
+    return isLinked.value && entry && entry.sourceId !== widget().id ? entry.value : undefined
+  }
+
+  /**
+   * Call `handler` when another widget of the pane publishes a selection, and with the current
+   * selection when the widget gets linked
+   */
+  const follow = <K extends PaneContextKey>(
+    key: K,
+    handler: (value: PaneContext[K] | null) => void,
+  ) => {
+    watch(
+      () => [isLinked.value, contexts.value[paneId]?.[key]] as const,
+      () => {
+        const value = getSelection(key)
+        if (value !== undefined) handler(value)
+      },
+    )
+  }
+
+  return {
+    isLinked,
+    publish,
+    getSelection,
+    follow,
+  }
+}
@@ -0,0 +1,147 @@
+import { computed, onMounted, onUnmounted, watch } from 'vue'
+import { useRoute, useRouter } from 'vue-router'
+import { usePanes } from './usePanes'
+import {
+  getKioskSettings,
+  getPaneSchedule,
+  getScheduledPaneId,
+  PANE_SCHEDULE_UPDATED_EVENT,
+} from '../utils/paneSchedule'
+
+// Query parameter of the dashboard route that turns the tab into a kiosk display (#/?kiosk)
+export const KIOSK_QUERY = 'kiosk'
+
+const SCHEDULE_CHECK_INTERVAL = 30 * 1000
+const MIN_KIOSK_INTERVAL_SECONDS = 5
+
+/**
+ * Switches the active pane on its own: following the schedule rules, and in kiosk mode by
+ * rotating through the kiosk panes. Both go through switchPane, so like switching by hand they
+ * only affect this tab. Used once, by App.vue.
+ */
+export function usePaneSchedule() {
+  const route = useRoute()
+  const router = useRouter()
+  const { panes, activePaneId, switchPane } = usePanes()
+
+  const isKioskMode = computed(() => route.query[KIOSK_QUERY] !== undefined)
+
+  const enterKioskMode = () => {
+    router.push({ path: '/', query: { [KIOSK_QUERY]: '1' } })
+    document.documentElement.requestFullscreen?.().catch(() => {
+      // Full screen is optional, the kiosk works in a window too
+    })
+  }
+
+  const exitKioskMode = () => {
+    router.replace({ path: '/', query: {} })
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {})
+    }
+  }
+
+  // Pane the schedule picked last. Panes are only switched when the pick changes, so a pane
+  // chosen by hand stays until the next rule starts.
+  let lastScheduledPaneId: string | null = null
+
+  const applySchedule = () => {
+    if (isKioskMode.value) return
+    const schedule = getPaneSchedule()
+    const paneId = schedule.enabled ? getScheduledPaneId(schedule.rules) : null
+    if (paneId === lastScheduledPaneId) return
+    // Wait until the panes are loaded (or ignore a rule for a deleted pane)
+    if (paneId && !panes.value.some((p) => p.id === paneId)) return
+    lastScheduledPaneId = paneId
+    if (paneId && paneId !== activePaneId.value) {
+      switchPane(paneId)
+    }
+  }
+
+  let scheduleInterval: number | null = null
+  let rotationInterval: number | null = null
+
+  const getRotation = (): string[] => {
+    const { paneIds } = getKioskSettings()
+    if (paneIds.length === 0) return panes.value.map((p) => p.id)
+    return paneIds.filter((id) => panes.value.some((p) => p.id === id))
+  }
+
+  const stopRotation = () => {
+    if (rotationInterval) {
+      clearInterval(rotationInterval)
+      rotationInterval = null
+    }
+  }
+
+  const startRotation = () => {
+    stopRotation()
+    if (!isKioskMode.value) return
+
+    const rotation = getRotation()
+    const [firstPaneId] = rotation
+    if (firstPaneId && !rotation.includes(activePaneId.value)) {
+      switchPane(firstPaneId)
+    }
+
+    const seconds = Math.max(MIN_KIOSK_INTERVAL_SECONDS, getKioskSettings().intervalSeconds)
+    rotationInterval = window.setInterval(() => {
+      const rotation = getRotation()
+      const nextPaneId = rotation[(rotation.indexOf(activePaneId.value) + 1) % rotation.length]
+      if (nextPaneId && nextPaneId !== activePaneId.value) {
+        switchPane(nextPaneId)
+      }
+    }, seconds * 1000)
+  }
+
+  const handleSettingsUpdated = () => {
+    // New rules apply right away, even if they pick the same pane as before
+    lastScheduledPaneId = null
+    applySchedule()
+    if (isKioskMode.value) startRotation()
+  }
+
+  const handleKeydown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape' && isKioskMode.value) {
+      exitKioskMode()
+    }
+  }
+
+  watch(isKioskMode, (kiosk) => {
+    if (kiosk) {
+      startRotation()
+    } else {
+      stopRotation()
+      applySchedule()
+    }
+  })
+
+  // Panes are loaded after mount
+  watch(
+    () => panes.value.length,
+    () => {
+      applySchedule()
+      if (isKioskMode.value) startRotation()
+    },
+  )
+
+  onMounted(() => {
+    applySchedule()
+    startRotation()
+    scheduleInterval = window.setInterval(applySchedule, SCHEDULE_CHECK_INTERVAL)
+    window.addEventListener(PANE_SCHEDULE_UPDATED_EVENT, handleSettingsUpdated)
+    window.addEventListener('keydown', handleKeydown)
+  })
+
+  onUnmounted(() => {
+    if (scheduleInterval) clearInterval(scheduleInterval)
+    stopRotation()
+    window.removeEventListener(PANE_SCHEDULE_UPDATED_EVENT, handleSettingsUpdated)
+    window.removeEventListener('keydown', handleKeydown)
+  })
+
+  return {
+    isKioskMode,
+    enterKioskMode,
+    exitKioskMode,
+  }
+}
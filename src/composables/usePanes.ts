@@ -1,17 +1,52 @@
-import { ref, watch, nextTick } from 'vue'
+import { ref, computed, watch, nextTick } from 'vue'
+import { profileKey } from '../utils/profiles'
+import {
+  migratePanesDocument,
+  PANES_SCHEMA_VERSION,
+  type Pane,
+  type PanesDocument,
+  type QuarantineEntry,
+} from '../utils/paneSchema'
+import { createPaneFromShared } from '../utils/paneSharing'
+import type { Breakpoint } from '../utils/gridLayouts'
+
+export type { Pane, QuarantineEntry }
 
 export const PANES_STORAGE_KEY = 'craftboard-panes'
 export const ACTIVE_PANE_KEY = 'craftboard-active-pane'
 
-export interface Pane {
-  id: string
-  name: string
-  widgets: any[]
+/**
+ * Whether a localStorage key holds the panes of any profile
+ */
+export const isPanesStorageKey = (key: string): boolean => {
+  return (
+    key === PANES_STORAGE_KEY ||
+    (key.startsWith('profile-') && key.endsWith(`-${PANES_STORAGE_KEY}`))
+  )
 }
 
 // Singleton state - shared across all usePanes() calls
 const panes = ref<Pane[]>([])
 const activePaneId = ref<string>('')
+// Widgets that failed validation while loading
+const quarantine = ref<QuarantineEntry[]>([])
+
+/**
+ * Undo/redo history of pane and widget edits.
+ * Each entry is a snapshot of the panes taken right before an edit, recorded by the code
+ * making the edit through recordHistory().
+ */
+interface HistoryEntry {
+  label: string
+  panes: string
+  activePaneId: string
+}
+
+const HISTORY_LIMIT = 50
+const undoStack = ref<HistoryEntry[]>([])
+const redoStack = ref<HistoryEntry[]>([])
+// Set after destructive edits, so the UI can offer to undo them
+const lastDestructiveEdit = ref<{ label: string; at: number } | null>(null)
 
 // Initialize watchers and listeners only once
 let initialized = false
@@ -19,43 +54,77 @@ let initialized = false
 let isSyncingPanes = false
 const isSyncingActivePane = false
 
+const createDefaultPane = (): Pane => ({
+  id: 'default',
+  name: 'Main',
+  widgets: [],
+})
+
 const loadPanes = () => {
   try {
-    const savedPanes = localStorage.getItem(PANES_STORAGE_KEY)
-    const savedActivePane = localStorage.getItem(ACTIVE_PANE_KEY)
+    const savedPanes = localStorage.getItem(profileKey(PANES_STORAGE_KEY))
+    const savedActivePane = localStorage.getItem(profileKey(ACTIVE_PANE_KEY))
 
+    clearHistory()
     if (savedPanes) {
-      panes.value = JSON.parse(savedPanes)
-      activePaneId.value = savedActivePane || panes.value[0]?.id || ''
+      const document = readPanesDocument(savedPanes)
+      panes.value = document.panes
+      quarantine.value = document.quarantine
+      activePaneId.value = panes.value.some((pane) => pane.id === savedActivePane)
+        ? (savedActivePane as string)
+        : panes.value[0]?.id || ''
     } else {
-      panes.value = [
-        {
-          id: 'default',
-          name: 'Main',
-          widgets: [],
-        },
-      ]
+      panes.value = [createDefaultPane()]
       activePaneId.value = 'default'
       savePanesOnly()
       saveActivePaneOnly()
     }
   } catch (e) {
     console.error('Failed to load panes:', e)
-    panes.value = [
-      {
-        id: 'default',
-        name: 'Main',
-        widgets: [],
-      },
-    ]
+    panes.value = [createDefaultPane()]
     activePaneId.value = 'default'
   }
 }
 
+/**
+ * Parse and migrate a stored panes document. A document that can't be read at all
+ * (corrupt JSON, newer schema) ends up in the quarantine as a whole. When no pane is
+ * left, an empty "Main" pane is added so the dashboard still has somewhere to put widgets.
+ */
+const readPanesDocument = (saved: string): PanesDocument => {
+  const document = parsePanesDocument(saved)
+  if (document.panes.length === 0) document.panes.push(createDefaultPane())
+  return document
+}
+
+const parsePanesDocument = (saved: string): PanesDocument => {
+  try {
+    return migratePanesDocument(JSON.parse(saved))
+  } catch (e) {
+    console.error('Failed to migrate panes:', e)
+    return {
+      version: PANES_SCHEMA_VERSION,
+      panes: [],
+      quarantine: [
+        {
+          item: saved,
+          reason: e instanceof Error ? e.message : 'Unreadable dashboard',
+          quarantinedAt: Date.now(),
+        },
+      ],
+    }
+  }
+}
+
 // Save only panes data (not activePaneId)
 const savePanesOnly = () => {
   try {
-    localStorage.setItem(PANES_STORAGE_KEY, JSON.stringify(panes.value))
+    const document: PanesDocument = {
+      version: PANES_SCHEMA_VERSION,
+      panes: panes.value,
+      quarantine: quarantine.value,
+    }
+    localStorage.setItem(profileKey(PANES_STORAGE_KEY), JSON.stringify(document))
   } catch (e) {
     console.error('Failed to save panes:', e)
   }
@@ -64,7 +133,7 @@ const savePanesOnly = () => {
 // Save only activePaneId (not panes)
 const saveActivePaneOnly = () => {
   try {
-    localStorage.setItem(ACTIVE_PANE_KEY, activePaneId.value)
+    localStorage.setItem(profileKey(ACTIVE_PANE_KEY), activePaneId.value)
   } catch (e) {
     console.error('Failed to save active pane:', e)
   }
@@ -81,6 +150,109 @@ const switchPane = (paneId: string) => {
   saveActivePaneOnly()
 }
 
+const takeSnapshot = (label: string): HistoryEntry => ({
+  label,
+  panes: JSON.stringify(panes.value),
+  activePaneId: activePaneId.value,
+})
+
+const restoreSnapshot = (entry: HistoryEntry) => {
+  panes.value = JSON.parse(entry.panes)
+  activePaneId.value = panes.value.some((pane) => pane.id === entry.activePaneId)
+    ? entry.activePaneId
+    : panes.value[0]?.id || ''
+  savePanes()
+}
+
+/**
+ * Call right before changing panes or widgets, so the change can be undone.
+ * Destructive edits (removing a widget or a pane) also trigger the "Undo" toast.
+ */
+const recordHistory = (label: string, destructive = false) => {
+  undoStack.value.push(takeSnapshot(label))
+  if (undoStack.value.length > HISTORY_LIMIT) {
+    undoStack.value.shift()
+  }
+  redoStack.value = []
+  lastDestructiveEdit.value = destructive ? { label, at: Date.now() } : null
+}
+
+const undo = () => {
+  const entry = undoStack.value.pop()
+  if (!entry) return
+  redoStack.value.push(takeSnapshot(entry.label))
+  restoreSnapshot(entry)
+  lastDestructiveEdit.value = null
+}
+
+const redo = () => {
+  const entry = redoStack.value.pop()
+  if (!entry) return
+  undoStack.value.push(takeSnapshot(entry.label))
+  restoreSnapshot(entry)
+}
+
+// Snapshots of another state of the panes can't be applied anymore
+const clearHistory = () => {
+  undoStack.value = []
+  redoStack.value = []
+  lastDestructiveEdit.value = null
+}
+
+const canUndo = computed(() => undoStack.value.length > 0)
+const canRedo = computed(() => redoStack.value.length > 0)
+
+/**
+ * Add a shared pane (from a file, a link or a template) next to the existing panes and
+ * switch to it. Widgets that fail validation go to the quarantine and are counted in
+ * `skipped`. Throws if `shared` isn't a pane.
+ */
+const importSharedPane = (shared: unknown, name?: string): { pane: Pane; skipped: number } => {
+  const { pane, quarantine: rejected } = createPaneFromShared(shared)
+  if (name) pane.name = name
+  recordHistory('Import pane')
+  panes.value.push(pane)
+  quarantine.value.push(...rejected)
+  activePaneId.value = pane.id
+  savePanes()
+  return { pane, skipped: rejected.length }
+}
+
+/**
+ * Whether the active pane was arranged by hand at a smaller screen size
+ */
+const hasCustomLayout = (breakpoint: Breakpoint): boolean => {
+  if (breakpoint === 'desktop') return false
+  const activePane = panes.value.find((p) => p.id === activePaneId.value)
+  return !!activePane?.widgets.some((widget) => widget.layouts?.[breakpoint])
+}
+
+/**
+ * Go back to deriving the active pane's layout at a smaller screen size from the desktop one
+ */
+const resetLayout = (breakpoint: Breakpoint) => {
+  if (breakpoint === 'desktop') return
+  const activePane = panes.value.find((p) => p.id === activePaneId.value)
+  if (!activePane) return
+  recordHistory(`Reset ${breakpoint} layout`)
+  activePane.widgets = activePane.widgets.map((widget) => {
+    const layouts = { ...widget.layouts }
+    delete layouts[breakpoint]
+    return { ...widget, layouts: Object.keys(layouts).length > 0 ? layouts : undefined }
+  })
+  savePanes()
+}
+
+const discardQuarantineEntry = (index: number) => {
+  quarantine.value.splice(index, 1)
+  savePanesOnly()
+}
+
+const clearQuarantine = () => {
+  quarantine.value = []
+  savePanesOnly()
+}
+
 export function usePanes() {
   // Initialize watchers and listeners only once
   if (!initialized) {
@@ -90,10 +262,13 @@ export function usePanes() {
     if (typeof window !== 'undefined') {
       window.addEventListener('storage', (e) => {
         // Handle panes changes from other tabs
-        if (e.key === PANES_STORAGE_KEY && e.newValue) {
+        if (e.key === profileKey(PANES_STORAGE_KEY) && e.newValue) {
           isSyncingPanes = true
+          clearHistory()
           try {
-            panes.value = JSON.parse(e.newValue)
+            const document = readPanesDocument(e.newValue)
+            panes.value = document.panes
+            quarantine.value = document.quarantine
           } finally {
             // Reset flag after Vue's reactivity cycle completes
             nextTick(() => {
@@ -127,8 +302,20 @@ export function usePanes() {
   return {
     panes,
     activePaneId,
+    quarantine,
     loadPanes,
     savePanes,
     switchPane,
+    recordHistory,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
+    lastDestructiveEdit,
+    importSharedPane,
+    hasCustomLayout,
+    resetLayout,
+    discardQuarantineEntry,
+    clearQuarantine,
   }
 }
@@ -0,0 +1,68 @@
+import { computed, onUnmounted, ref, watch, type Ref } from 'vue'
+import { searchDocuments, type DocumentSearchResult, type NewCraftTask } from '../utils/craftApi'
+import { parseQuickTask, quickTaskMarkdown } from '../utils/quickTask'
+
+/**
+ * Live parsing of a quick-add input. Documents named with `@name` are looked up through
+ * the search API as the user types, so the preview can show where the task will go.
+ */
+export function useQuickTask(input: Ref<string>) {
+  const parsed = computed(() => parseQuickTask(input.value))
+  const documentName = computed(() =>
+    parsed.value.target?.type === 'document' ? parsed.value.target.name : null,
+  )
+
+  const document = ref<DocumentSearchResult | null>(null)
+  const isResolving = ref(false)
+  let resolveTimeout: ReturnType<typeof setTimeout> | null = null
+
+  const resolveDocument = async (name: string) => {
+    isResolving.value = true
+    try {
+      const results = await searchDocuments(name)
+      // Ignore results of a name the user has typed past
+      if (documentName.value === name) document.value = results[0] || null
+    } catch (err) {
+      console.error('Failed to search documents:', err)
+      if (documentName.value === name) document.value = null
+    } finally {
+      if (documentName.value === name) isResolving.value = false
+    }
+  }
+
+  watch(documentName, (name) => {
+    if (resolveTimeout) clearTimeout(resolveTimeout)
+    document.value = null
+    isResolving.value = !!name
+    if (name) resolveTimeout = setTimeout(() => resolveDocument(name), 300)
+  })
+
+  onUnmounted(() => {
+    if (resolveTimeout) clearTimeout(resolveTimeout)
+  })
+
+  /**
+   * The task to create, or an error message when the input can't be added yet.
+   * `defaultLocation` is used when the input doesn't name a target.
+   */
+  const buildTask = (
+    defaultLocation: NewCraftTask['location'],
+  ): { task: NewCraftTask } | { error: string } => {
+    const { target, scheduleDate, deadlineDate } = parsed.value
+    const markdown = quickTaskMarkdown(parsed.value)
+    if (!markdown) return { error: 'Enter a task description.' }
+
+    let location = defaultLocation
+    if (target?.type === 'inbox' || target?.type === 'dailyNote') {
+      location = target
+    } else if (target?.type === 'document') {
+      if (isResolving.value) return { error: 'Still looking for the document, try again.' }
+      if (!document.value) return { error: `No document matches "${target.name}".` }
+      location = { type: 'document', documentId: document.value.id }
+    }
+
+    return { task: { markdown, location, scheduleDate, deadlineDate } }
+  }
+
+  return { parsed, document, isResolving, buildTask }
+}
@@ -0,0 +1,102 @@
+import type { Widget } from '../types/widget'
+import { PANES_SCHEMA_VERSION } from '../utils/paneSchema'
+import { SHARED_PANE_TYPE, type SharedPane } from '../utils/paneSharing'
+
+/**
+ * Built-in starting points for new panes, offered in the New Pane modal.
+ * They are shared panes like any exported one, so they go through the same import path.
+ */
+
+export interface PaneTemplate {
+  id: string
+  name: string
+  description: string
+  pane: SharedPane
+}
+
+// Validated when the template is imported, like any other shared pane
+interface TemplateWidget extends Omit<Widget, 'id' | 'type' | 'data'> {
+  type: string
+  data?: object
+}
+
+const template = (name: string, widgets: TemplateWidget[]): SharedPane => ({
+  type: SHARED_PANE_TYPE,
+  version: PANES_SCHEMA_VERSION,
+  name,
+  widgets: widgets.map((widget, index) => ({ ...widget, id: `${index + 1}` }) as Widget),
+})
+
+const checklist = (items: string[]) =>
+  items.map((text, index) => ({ id: `${index + 1}`, text, completed: false }))
+
+export const PANE_TEMPLATES: PaneTemplate[] = [
+  {
+    id: 'daily-planning',
+    name: 'Daily planning',
+    description: "Today's daily note, priorities, a focus timer and task stats",
+    pane: template('Daily planning', [
+      { type: 'daily-note', x: 0, y: 0, w: 10, h: 6, title: 'Daily Note' },
+      {
+        type: 'notes',
+        x: 10,
+        y: 0,
+        w: 7,
+        h: 6,
+        title: "Today's priorities",
+        data: {
+          notes: checklist(['Review calendar', 'Pick the top 3 tasks', 'Plan focus blocks']),
+        },
+      },
+      { type: 'clock', x: 17, y: 0, w: 7, h: 3, title: 'Clock' },
+      { type: 'pomodoro', x: 17, y: 3, w: 7, h: 4, title: 'Pomodoro Timer' },
+      { type: 'task-stats', x: 0, y: 6, w: 10, h: 8, title: 'Task Stats' },
+    ]),
+  },
+  {
+    id: 'reading',
+    name: 'Reading',
+    description: 'A feed, a bookmark and a quote next to a scratchpad for notes',
+    pane: template('Reading', [
+      { type: 'rss', x: 0, y: 0, w: 8, h: 6, title: 'RSS Feed' },
+      { type: 'bookmark', x: 8, y: 0, w: 6, h: 3, title: 'Bookmark' },
+      { type: 'quote', x: 8, y: 3, w: 6, h: 3, title: 'Quote' },
+      {
+        type: 'markdown',
+        x: 14,
+        y: 0,
+        w: 10,
+        h: 6,
+        title: 'Reading notes',
+        data: { markdown: '# Reading notes\n\n## Key ideas\n\n- \n\n## Questions\n\n- ' },
+      },
+    ]),
+  },
+  {
+    id: 'study',
+    name: 'Study',
+    description: 'Focus timer, stopwatch, study notes and topics to review',
+    pane: template('Study', [
+      { type: 'pomodoro', x: 0, y: 0, w: 7, h: 4, title: 'Pomodoro Timer' },
+      { type: 'stopwatch', x: 0, y: 4, w: 7, h: 3, title: 'Stopwatch' },
+      {
+        type: 'markdown',
+        x: 7,
+        y: 0,
+        w: 10,
+        h: 7,
+        title: 'Study notes',
+        data: { markdown: '# Study notes\n\n## Summary\n\n## Definitions\n\n## Examples\n' },
+      },
+      {
+        type: 'notes',
+        x: 17,
+        y: 0,
+        w: 7,
+        h: 7,
+        title: 'Topics to review',
+        data: { notes: [] },
+      },
+    ]),
+  },
+]
@@ -1,7 +1,7 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { getCollectionItems } from '../utils/craftApi'
-import { useApiCache } from '../composables/useApiCache'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 
 export interface BookmarkItem {
   id: string
@@ -13,6 +13,12 @@ export interface BookmarkItem {
   comment?: string
 }
 
+export const bookmarksCachePolicy: CachePolicy = {
+  prefix: 'bookmarks-cache-',
+  label: 'Bookmarks',
+  defaultTtlMinutes: 360,
+}
+
 export const useBookmarksApiStore = defineStore('bookmarksApi', () => {
   // State
   const bookmarks = ref<BookmarkItem[]>([])
@@ -20,9 +26,10 @@ export const useBookmarksApiStore = defineStore('bookmarksApi', () => {
   const error = ref<string | null>(null)
   const totalApiCalls = ref(0)
   const completedApiCalls = ref(0)
+  const currentCollectionId = ref<string | null>(null)
 
   // Cache composable
-  const cache = useApiCache('bookmarks-cache-')
+  const cache = useApiCache(bookmarksCachePolicy.prefix, bookmarksCachePolicy.defaultTtlMinutes)
 
   /**
    * Fetch collection items from API
@@ -102,6 +109,7 @@ export const useBookmarksApiStore = defineStore('bookmarksApi', () => {
       return
     }
 
+    currentCollectionId.value = collectionId
     isLoading.value = true
     error.value = null
     // Don't clear bookmarks here - keep existing data while reloading
@@ -109,14 +117,28 @@ export const useBookmarksApiStore = defineStore('bookmarksApi', () => {
     try {
       // Check cache first
       if (!forceRefresh) {
-        const cached = cache.getCachedData<BookmarkItem[]>(collectionId)
+        const cached = await cache.getCachedData<BookmarkItem[]>(collectionId)
         if (cached) {
           bookmarks.value = cached
           isLoading.value = false
           return
         }
+
+        // Expired: show it now and refresh in the background
+        const stale = await cache.getStaleData(
+          collectionId,
+          () => fetchCollectionItems(collectionId),
+          (items) => {
+            bookmarks.value = items
+          },
+        )
+        if (stale) {
+          bookmarks.value = stale
+          isLoading.value = false
+          return
+        }
       } else {
-        cache.clearCache(collectionId)
+        await cache.clearCache(collectionId)
       }
 
       // Fetch collection items
@@ -127,7 +149,7 @@ export const useBookmarksApiStore = defineStore('bookmarksApi', () => {
       bookmarks.value = items
 
       // Cache items
-      cache.setCachedData(collectionId, items)
+      await cache.setCachedData(collectionId, items)
     } catch (err) {
       console.error('Failed to initialize bookmarks:', err)
       error.value = err instanceof Error ? err.message : 'Failed to load bookmarks'
@@ -143,6 +165,13 @@ export const useBookmarksApiStore = defineStore('bookmarksApi', () => {
     return initializeBookmarks(collectionId, true)
   }
 
+  // Pick up bookmarks fetched by other tabs
+  cache.onRemoteChange<BookmarkItem[]>((collectionId, items) => {
+    if (items && collectionId === currentCollectionId.value) {
+      bookmarks.value = items
+    }
+  })
+
   return {
     // State
     bookmarks: computed(() => bookmarks.value),
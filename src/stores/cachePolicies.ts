@@ -0,0 +1,29 @@
+import type { CachePolicy } from '../composables/useApiCache'
+import { bookmarksCachePolicy } from './bookmarksApi'
+import { flashcardsCachePolicy } from './flashcardsApi'
+import { graphCachePolicy } from './graphApi'
+import { musicCachePolicy } from './musicApi'
+import { quotesCachePolicy } from './quotesApi'
+import { rssCachePolicy } from './rssApi'
+import { statsCachePolicy } from './statsApi'
+import { tagsCachePolicy } from './tagsApi'
+import { tasksCachePolicy, calendarCachePolicy } from './tasksApi'
+
+// Cache policies declared by the API stores, as listed in Settings and the cache inspector.
+// Namespaces without a policy use the global cache expiry.
+export const CACHE_POLICIES: CachePolicy[] = [
+  tasksCachePolicy,
+  calendarCachePolicy,
+  rssCachePolicy,
+  tagsCachePolicy,
+  bookmarksCachePolicy,
+  flashcardsCachePolicy,
+  statsCachePolicy,
+  quotesCachePolicy,
+  musicCachePolicy,
+  graphCachePolicy,
+]
+
+export const getCachePolicy = (prefix: string): CachePolicy | undefined => {
+  return CACHE_POLICIES.find((policy) => policy.prefix === prefix)
+}
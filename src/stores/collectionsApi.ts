@@ -4,10 +4,14 @@ import { useApiCache } from '../composables/useApiCache'
 import {
   listCollections,
   getCollectionSchema,
-  getCollectionItems,
+  streamCollectionItems,
+  createCollectionItem,
+  updateCollectionItem,
+  deleteCollectionItem,
   type Collection,
   type CollectionSchema,
   type CollectionItem,
+  type CollectionItemInput,
 } from '../utils/craftApi'
 
 export interface CollectionData {
@@ -30,11 +34,20 @@ export const useCollectionsApiStore = defineStore('collectionsApi', () => {
   // Initialize list of all collections
   async function initializeCollections(forceRefresh = false) {
     if (!forceRefresh) {
-      const cached = cache.getCachedData<Collection[]>('list')
+      const cached = await cache.getCachedData<Collection[]>('list')
       if (cached) {
         collections.value = cached
         return
       }
+
+      // Expired: show it now and refresh in the background
+      const stale = await cache.getStaleData('list', listCollections, (result) => {
+        collections.value = result
+      })
+      if (stale) {
+        collections.value = stale
+        return
+      }
     }
 
     await fetchCollections()
@@ -47,32 +60,52 @@ export const useCollectionsApiStore = defineStore('collectionsApi', () => {
   async function fetchCollections() {
     const result = await listCollections()
     collections.value = result
-    cache.setCachedData('list', result)
+    await cache.setCachedData('list', result)
   }
 
   // Initialize a specific collection's schema and items
-  async function initializeCollection(collectionId: string, forceRefresh = false) {
+  // onPage is called as soon as the schema and each page of items are available,
+  // so large collections can render before every page has been fetched
+  async function initializeCollection(
+    collectionId: string,
+    forceRefresh = false,
+    onPage?: (data: CollectionData) => void,
+  ) {
     if (!forceRefresh) {
-      const cached = cache.getCachedData<CollectionData>(collectionId)
+      const cached = await cache.getCachedData<CollectionData>(collectionId)
       if (cached) {
         collectionsData.value.set(collectionId, cached)
         return cached
       }
+
+      // Expired: show it now and refresh in the background. The fresh data is stored
+      // by fetchCollectionData and handed to onPage once complete.
+      const stale = await cache.getStaleData(
+        collectionId,
+        () => fetchCollectionData(collectionId),
+        (data) => onPage?.(data),
+      )
+      if (stale) {
+        collectionsData.value.set(collectionId, stale)
+        return stale
+      }
     }
 
-    return await fetchCollectionData(collectionId)
+    return await fetchCollectionData(collectionId, onPage)
   }
 
   async function refreshCollection(collectionId: string) {
     return await initializeCollection(collectionId, true)
   }
 
-  async function fetchCollectionData(collectionId: string): Promise<CollectionData> {
-    // Fetch schema and items in parallel
-    const [schema, items] = await Promise.all([
-      getCollectionSchema(collectionId),
-      getCollectionItems(collectionId),
-    ])
+  async function fetchCollectionData(
+    collectionId: string,
+    onPage?: (data: CollectionData) => void,
+  ): Promise<CollectionData> {
+    // Fetch schema and the first page of items in parallel
+    const pages = streamCollectionItems(collectionId)
+    const [schema, firstPage] = await Promise.all([getCollectionSchema(collectionId), pages.next()])
+    let items = firstPage.done ? [] : firstPage.value
 
     // Find collection info from the list
     let collection = collections.value.find((c) => c.id === collectionId)
@@ -94,14 +127,25 @@ export const useCollectionsApiStore = defineStore('collectionsApi', () => {
       }
     }
 
-    const collectionData: CollectionData = {
+    let collectionData: CollectionData = {
       collection,
       schema,
       items,
     }
-
     collectionsData.value.set(collectionId, collectionData)
-    cache.setCachedData(collectionId, collectionData)
+    onPage?.(collectionData)
+
+    // Append remaining pages as they arrive
+    if (!firstPage.done) {
+      for await (const page of pages) {
+        items = [...items, ...page]
+        collectionData = { ...collectionData, items }
+        collectionsData.value.set(collectionId, collectionData)
+        onPage?.(collectionData)
+      }
+    }
+
+    await cache.setCachedData(collectionId, collectionData)
 
     return collectionData
   }
@@ -110,12 +154,84 @@ export const useCollectionsApiStore = defineStore('collectionsApi', () => {
     return collectionsData.value.get(collectionId)
   }
 
-  function clearAllCache() {
-    cache.clearAllCache()
+  // Schema only, for forms that don't need the collection's items
+  async function getSchema(collectionId: string): Promise<CollectionSchema> {
+    const loaded = collectionsData.value.get(collectionId)?.schema
+    if (loaded) return loaded
+
+    const cacheKey = `schema-${collectionId}`
+    const cached = await cache.getCachedData<CollectionSchema>(cacheKey)
+    if (cached) return cached
+
+    const schema = await getCollectionSchema(collectionId)
+    await cache.setCachedData(cacheKey, schema)
+    return schema
+  }
+
+  // Keep loaded collection data and its cache entry in sync after a write
+  async function updateLoadedItems(
+    collectionId: string,
+    update: (items: CollectionItem[]) => CollectionItem[],
+  ) {
+    const loaded = collectionsData.value.get(collectionId)
+    if (!loaded) return
+
+    const updated = { ...loaded, items: update(loaded.items) }
+    collectionsData.value.set(collectionId, updated)
+    await cache.setCachedData(collectionId, updated)
+  }
+
+  async function createItem(
+    collectionId: string,
+    input: CollectionItemInput,
+  ): Promise<CollectionItem> {
+    const created = await createCollectionItem(collectionId, input)
+    await updateLoadedItems(collectionId, (items) => [...items, created])
+    return created
+  }
+
+  async function updateItem(
+    collectionId: string,
+    itemId: string,
+    input: CollectionItemInput,
+  ): Promise<CollectionItem> {
+    const saved = await updateCollectionItem(collectionId, itemId, input)
+    let result: CollectionItem = saved || { id: itemId, ...input }
+    await updateLoadedItems(collectionId, (items) =>
+      items.map((item) => {
+        if (item.id !== itemId) return item
+        result = saved || {
+          ...item,
+          title: input.title,
+          properties: { ...item.properties, ...input.properties },
+        }
+        return result
+      }),
+    )
+    return result
+  }
+
+  async function deleteItem(collectionId: string, itemId: string): Promise<void> {
+    await deleteCollectionItem(collectionId, itemId)
+    await updateLoadedItems(collectionId, (items) => items.filter((item) => item.id !== itemId))
+  }
+
+  async function clearAllCache() {
+    await cache.clearAllCache()
     collections.value = []
     collectionsData.value.clear()
   }
 
+  // Pick up the collections list and loaded collections fetched or edited in other tabs
+  cache.onRemoteChange<Collection[] | CollectionData>((key, value) => {
+    if (!key || !value) return
+    if (key === 'list') {
+      collections.value = value as Collection[]
+    } else if (collectionsData.value.has(key)) {
+      collectionsData.value.set(key, value as CollectionData)
+    }
+  })
+
   return {
     data,
     collections: computed(() => collections.value),
@@ -125,6 +241,10 @@ export const useCollectionsApiStore = defineStore('collectionsApi', () => {
     initializeCollection,
     refreshCollection,
     getCollection,
+    getSchema,
+    createItem,
+    updateItem,
+    deleteItem,
     clearAllCache,
   }
 })
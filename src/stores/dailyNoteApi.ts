@@ -1,7 +1,7 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
 import { useApiCache } from '../composables/useApiCache'
-import { getApiUrl } from '../utils/craftApi'
+import { craftRequest, isCraftApiError, type BlockContent } from '../utils/craftApi'
 
 export interface DailyNoteData {
   dateStr: string
@@ -19,11 +19,24 @@ export const useDailyNoteApiStore = defineStore('dailyNoteApi', () => {
   async function initializeDailyNote(dateStr: string, forceRefresh = false) {
     // Check cache first
     if (!forceRefresh) {
-      const cached = cache.getCachedData<DailyNoteData>(dateStr)
+      const cached = await cache.getCachedData<DailyNoteData>(dateStr)
       if (cached) {
         notesMap.value.set(dateStr, cached)
         return
       }
+
+      // Expired: show it now and refresh in the background
+      const stale = await cache.getStaleData(
+        dateStr,
+        () => loadDailyNote(dateStr),
+        (note) => {
+          notesMap.value.set(dateStr, note)
+        },
+      )
+      if (stale) {
+        notesMap.value.set(dateStr, stale)
+        return
+      }
     }
 
     // Fetch from API
@@ -35,37 +48,30 @@ export const useDailyNoteApiStore = defineStore('dailyNoteApi', () => {
   }
 
   async function fetchDailyNote(dateStr: string) {
-    const apiUrl = getApiUrl()
-    if (!apiUrl) {
-      throw new Error('Craft API URL not configured')
-    }
-
-    const response = await fetch(`${apiUrl}/blocks?date=${dateStr}`, {
-      method: 'GET',
-      headers: {
-        Authorization: `Bearer ${localStorage.getItem('craft-api-token')}`,
-        'Content-Type': 'application/json',
-      },
-    })
+    const noteData = await loadDailyNote(dateStr)
+    notesMap.value.set(dateStr, noteData)
+    await cache.setCachedData(dateStr, noteData)
+  }
 
-    if (!response.ok) {
-      if (response.status === 404) {
+  async function loadDailyNote(dateStr: string): Promise<DailyNoteData> {
+    let data: BlockContent
+    try {
+      data = await craftRequest<BlockContent>(`/blocks?date=${dateStr}`, {
+        action: 'fetch daily note',
+      })
+    } catch (err) {
+      if (isCraftApiError(err, 'not-found')) {
         // Daily note doesn't exist for this date
-        const emptyNote: DailyNoteData = {
+        return {
           dateStr,
           markdown: '*No content for this date*',
           documentId: null,
           clickableLink: null,
         }
-        notesMap.value.set(dateStr, emptyNote)
-        cache.setCachedData(dateStr, emptyNote)
-        return
       }
-      throw new Error(`Failed to fetch daily note: ${response.statusText}`)
+      throw err
     }
 
-    const data = await response.json()
-
     // Extract document ID (root block ID)
     const documentId = data.id || null
 
@@ -93,26 +99,30 @@ export const useDailyNoteApiStore = defineStore('dailyNoteApi', () => {
     const markdown = markdownLines.join('\n\n')
 
     // Generate clickable link (will be built by widget with preferences)
-    const noteData: DailyNoteData = {
+    return {
       dateStr,
       markdown: markdown || '*No content for this date*',
       documentId,
       clickableLink: null, // Will be built by widget
     }
-
-    notesMap.value.set(dateStr, noteData)
-    cache.setCachedData(dateStr, noteData)
   }
 
   function getDailyNote(dateStr: string): DailyNoteData | undefined {
     return notesMap.value.get(dateStr)
   }
 
-  function clearAllCache() {
-    cache.clearAllCache()
+  async function clearAllCache() {
+    await cache.clearAllCache()
     notesMap.value.clear()
   }
 
+  // Pick up notes fetched by other tabs, for dates this tab has loaded
+  cache.onRemoteChange<DailyNoteData>((dateStr, note) => {
+    if (dateStr && note && notesMap.value.has(dateStr)) {
+      notesMap.value.set(dateStr, note)
+    }
+  })
+
   return {
     data,
     initializeDailyNote,
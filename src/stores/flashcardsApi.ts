@@ -1,7 +1,7 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
-import { getApiUrl, getApiToken } from '../utils/craftApi'
-import { useApiCache } from '../composables/useApiCache'
+import { getApiUrl, getCollectionItems, isCraftApiError } from '../utils/craftApi'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 
 export interface FlashcardItem {
   id: string
@@ -13,27 +13,46 @@ export interface DeckItem {
   [key: string]: any
 }
 
+export const flashcardsCachePolicy: CachePolicy = {
+  prefix: 'flashcards-cache-',
+  label: 'Flashcards',
+  defaultTtlMinutes: 360,
+}
+
 export const useFlashcardsApiStore = defineStore('flashcardsApi', () => {
-  const cache = useApiCache('flashcards-cache-')
+  const cache = useApiCache(flashcardsCachePolicy.prefix, flashcardsCachePolicy.defaultTtlMinutes)
 
   const decks = ref<DeckItem[]>([])
   const flashcards = ref<FlashcardItem[]>([])
   const isLoading = ref(false)
   const totalApiCalls = ref(0)
   const completedApiCalls = ref(0)
-
-  const getHeaders = () => {
-    const token = getApiToken()
-    return {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    }
-  }
+  const currentCacheKey = ref<string | null>(null)
 
   const getCacheKey = (decksId: string, flashcardsId: string): string => {
     return `${decksId}-${flashcardsId}`
   }
 
+  // Fetch a collection, turning API errors into hints about the Settings configuration
+  const fetchItems = async <T>(collectionId: string, label: string, action: string) => {
+    try {
+      const items = await getCollectionItems(collectionId, { action: `fetch ${action}` })
+      return items as unknown as T[]
+    } catch (error) {
+      if (isCraftApiError(error, 'not-found')) {
+        throw new Error(
+          `${label} collection not found. Please check your Collection IDs in Settings > API.`,
+        )
+      }
+      if (isCraftApiError(error, 'http')) {
+        throw new Error(
+          `Failed to fetch ${action} (${error.status}). Please check your Collection IDs in Settings > API.`,
+        )
+      }
+      throw error
+    }
+  }
+
   const fetchCollectionData = async (
     decksCollectionId: string,
     flashcardsCollectionId: string,
@@ -46,10 +65,11 @@ export const useFlashcardsApiStore = defineStore('flashcardsApi', () => {
     }
 
     const cacheKey = getCacheKey(decksCollectionId, flashcardsCollectionId)
+    currentCacheKey.value = cacheKey
 
     // Check cache first (unless forcing refresh)
     if (!forceRefresh) {
-      const cached = cache.getCachedData<{
+      const cached = await cache.getCachedData<{
         decks: DeckItem[]
         flashcards: FlashcardItem[]
       }>(cacheKey)
@@ -59,63 +79,37 @@ export const useFlashcardsApiStore = defineStore('flashcardsApi', () => {
         isLoading.value = false
         return
       }
+
+      // Expired: show it now and refresh in the background
+      const stale = await cache.getStaleData(
+        cacheKey,
+        () => loadCollectionData(decksCollectionId, flashcardsCollectionId),
+        (data) => {
+          decks.value = data.decks
+          flashcards.value = data.flashcards
+        },
+      )
+      if (stale) {
+        decks.value = stale.decks || []
+        flashcards.value = stale.flashcards || []
+        isLoading.value = false
+        return
+      }
     } else {
-      cache.clearCache(cacheKey)
+      await cache.clearCache(cacheKey)
     }
 
     isLoading.value = true
     completedApiCalls.value = 0
 
     try {
-      // Fetch decks
-      const decksUrl = `${apiBaseUrl}/collections/${decksCollectionId}/items`
-      const decksResponse = await fetch(decksUrl, {
-        method: 'GET',
-        headers: getHeaders(),
-      })
-      if (!decksResponse.ok) {
-        if (decksResponse.status === 404) {
-          throw new Error(
-            'Deck collection not found. Please check your Collection IDs in Settings > API.',
-          )
-        }
-        throw new Error(
-          `Failed to fetch decks (${decksResponse.status}). Please check your Collection IDs in Settings > API.`,
-        )
-      }
-      const decksData = await decksResponse.json()
-      completedApiCalls.value++
-
-      // Fetch flashcards
-      const flashcardsUrl = `${apiBaseUrl}/collections/${flashcardsCollectionId}/items`
-      const flashcardsResponse = await fetch(flashcardsUrl, {
-        method: 'GET',
-        headers: getHeaders(),
-      })
-      if (!flashcardsResponse.ok) {
-        if (flashcardsResponse.status === 404) {
-          throw new Error(
-            'Flashcard collection not found. Please check your Collection IDs in Settings > API.',
-          )
-        }
-        throw new Error(
-          `Failed to fetch flashcards (${flashcardsResponse.status}). Please check your Collection IDs in Settings > API.`,
-        )
-      }
-      const flashcardsData = await flashcardsResponse.json()
-      completedApiCalls.value++
-
-      const decksItems = decksData.items || []
-      const flashcardsItems = flashcardsData.items || []
+      const data = await loadCollectionData(decksCollectionId, flashcardsCollectionId)
 
-      decks.value = decksItems
-      flashcards.value = flashcardsItems
+      decks.value = data.decks
+      flashcards.value = data.flashcards
 
       // Cache the data
-      cache.setCachedData(cacheKey, {
-        decks: decksItems,
-        flashcards: flashcardsItems,
-      })
+      await cache.setCachedData(cacheKey, data)
     } catch (error) {
       console.error('Error loading flashcards data:', error)
       completedApiCalls.value += 2
@@ -125,6 +119,22 @@ export const useFlashcardsApiStore = defineStore('flashcardsApi', () => {
     }
   }
 
+  const loadCollectionData = async (decksCollectionId: string, flashcardsCollectionId: string) => {
+    // Fetch decks
+    const decksItems = await fetchItems<DeckItem>(decksCollectionId, 'Deck', 'decks')
+    completedApiCalls.value++
+
+    // Fetch flashcards
+    const flashcardsItems = await fetchItems<FlashcardItem>(
+      flashcardsCollectionId,
+      'Flashcard',
+      'flashcards',
+    )
+    completedApiCalls.value++
+
+    return { decks: decksItems, flashcards: flashcardsItems }
+  }
+
   const initializeFlashcards = async (
     decksCollectionId: string,
     flashcardsCollectionId: string,
@@ -134,7 +144,7 @@ export const useFlashcardsApiStore = defineStore('flashcardsApi', () => {
     completedApiCalls.value = 0
 
     const cacheKey = getCacheKey(decksCollectionId, flashcardsCollectionId)
-    if (forceRefresh || !cache.getCachedData(cacheKey)) {
+    if (forceRefresh || !(await cache.getCachedData(cacheKey))) {
       totalApiCalls.value = 2 // decks + flashcards
     }
 
@@ -143,14 +153,22 @@ export const useFlashcardsApiStore = defineStore('flashcardsApi', () => {
 
   const refreshFlashcards = async (decksCollectionId: string, flashcardsCollectionId: string) => {
     const cacheKey = getCacheKey(decksCollectionId, flashcardsCollectionId)
-    cache.clearCache(cacheKey)
+    await cache.clearCache(cacheKey)
     await initializeFlashcards(decksCollectionId, flashcardsCollectionId, true)
   }
 
-  const clearAllCache = () => {
-    cache.clearAllCache()
+  const clearAllCache = async () => {
+    await cache.clearAllCache()
   }
 
+  // Pick up decks and flashcards fetched by other tabs
+  cache.onRemoteChange<{ decks: DeckItem[]; flashcards: FlashcardItem[] }>((key, data) => {
+    if (data && key === currentCacheKey.value) {
+      decks.value = data.decks || []
+      flashcards.value = data.flashcards || []
+    }
+  })
+
   return {
     decks: computed(() => decks.value),
     flashcards: computed(() => flashcards.value),
@@ -5,8 +5,13 @@ export const useGlobalLoadingStore = defineStore('globalLoading', () => {
   // Active loaders registry (just IDs)
   const loaders = ref<Set<string>>(new Set())
 
+  // Background refreshes of stale cached data (stale-while-revalidate)
+  const revalidating = ref<Set<string>>(new Set())
+  const lastRevalidatedAt = ref<number | null>(null)
+
   // Check if any loading is active
   const isLoading = computed(() => loaders.value.size > 0)
+  const isRevalidating = computed(() => revalidating.value.size > 0)
 
   // Start loading
   function startLoading(id: string) {
@@ -23,11 +28,28 @@ export const useGlobalLoadingStore = defineStore('globalLoading', () => {
     loaders.value.clear()
   }
 
+  function startRevalidating(id: string) {
+    revalidating.value.add(id)
+  }
+
+  // `updated` is true when fresh data replaced the stale data on screen
+  function stopRevalidating(id: string, updated: boolean) {
+    revalidating.value.delete(id)
+    if (updated) {
+      lastRevalidatedAt.value = Date.now()
+    }
+  }
+
   return {
     loaders,
     isLoading,
+    revalidating,
+    isRevalidating,
+    lastRevalidatedAt,
     startLoading,
     stopLoading,
     stopAll,
+    startRevalidating,
+    stopRevalidating,
   }
 })
@@ -2,8 +2,9 @@ import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
 import { fetchDocuments, fetchFolders, listCollections } from '../utils/craftApi'
 import type { CraftDocument, CraftFolder } from '../utils/craftApi'
-import { useApiCache } from '../composables/useApiCache'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 import { useTagsApiStore } from './tagsApi'
+import { profileKey } from '../utils/profiles'
 
 export interface GraphCollection {
   id: string
@@ -18,8 +19,14 @@ export interface TagDocumentRelation {
   dailyNoteDate?: string
 }
 
+export const graphCachePolicy: CachePolicy = {
+  prefix: 'graph-cache-',
+  label: 'Graph',
+  defaultTtlMinutes: 1440,
+}
+
 export const useGraphApiStore = defineStore('graphApi', () => {
-  const cache = useApiCache('graph-cache-')
+  const cache = useApiCache(graphCachePolicy.prefix, graphCachePolicy.defaultTtlMinutes)
   const tagsApiStore = useTagsApiStore()
 
   const documents = ref<CraftDocument[]>([])
@@ -37,7 +44,7 @@ export const useGraphApiStore = defineStore('graphApi', () => {
 
     // Check cache first if not forcing refresh
     if (!forceRefresh) {
-      const cached = cache.getCachedData<{
+      const cached = await cache.getCachedData<{
         documents: CraftDocument[]
         folders: CraftFolder[]
         collections: GraphCollection[]
@@ -49,103 +56,125 @@ export const useGraphApiStore = defineStore('graphApi', () => {
         isLoading.value = false
         return
       }
+
+      // Expired: show it now and refresh in the background
+      const stale = await cache.getStaleData(cacheKey, loadAllData, (data) => {
+        documents.value = data.documents
+        folders.value = data.folders
+        collections.value = data.collections
+      })
+      if (stale) {
+        documents.value = stale.documents
+        folders.value = stale.folders
+        collections.value = stale.collections
+        isLoading.value = false
+        return
+      }
     } else {
-      cache.clearCache(cacheKey)
+      await cache.clearCache(cacheKey)
     }
 
     isLoading.value = true
+
+    try {
+      const data = await loadAllData()
+
+      // Update all refs at once after all data is fetched
+      folders.value = data.folders
+      collections.value = data.collections
+      documents.value = data.documents
+
+      // Cache the data
+      await cache.setCachedData(cacheKey, data)
+    } catch (e) {
+      console.error('Error fetching graph data:', e)
+      throw e
+    } finally {
+      isLoading.value = false
+    }
+  }
+
+  // Fetch folders, collections and the documents of every folder
+  const loadAllData = async (): Promise<{
+    documents: CraftDocument[]
+    folders: CraftFolder[]
+    collections: GraphCollection[]
+  }> => {
     completedApiCalls.value = 0
     totalApiCalls.value = 0
 
-    try {
-      // Count total folders (including nested) for progress tracking
-      const countFolders = (folderList: CraftFolder[]): number => {
-        let count = 0
-        for (const folder of folderList) {
-          count++
-          if (folder.folders && folder.folders.length > 0) {
-            count += countFolders(folder.folders)
-          }
+    // Count total folders (including nested) for progress tracking
+    const countFolders = (folderList: CraftFolder[]): number => {
+      let count = 0
+      for (const folder of folderList) {
+        count++
+        if (folder.folders && folder.folders.length > 0) {
+          count += countFolders(folder.folders)
         }
-        return count
       }
+      return count
+    }
 
-      // Use temporary variables to accumulate data, keeping existing data visible during reload
-      let newFolders: CraftFolder[] = []
-      let newCollections: GraphCollection[] = []
-      const allDocuments: CraftDocument[] = []
+    // Use temporary variables to accumulate data, keeping existing data visible during reload
+    let newFolders: CraftFolder[] = []
+    let newCollections: GraphCollection[] = []
+    const allDocuments: CraftDocument[] = []
 
-      // First, fetch folders to count them
-      const foldersResult = await fetchFolders().catch(() => ({ items: [] }))
-      newFolders = foldersResult.items
+    // First, fetch folders to count them
+    const foldersResult = await fetchFolders().catch(() => ({ items: [] }))
+    newFolders = foldersResult.items
 
-      // Calculate total API calls: 2 (folders + collections) + number of folders
-      totalApiCalls.value = 2 + countFolders(newFolders)
-      completedApiCalls.value = 1 // Folders fetched
+    // Calculate total API calls: 2 (folders + collections) + number of folders
+    totalApiCalls.value = 2 + countFolders(newFolders)
+    completedApiCalls.value = 1 // Folders fetched
 
-      // Fetch collections
-      const collectionsResult = await listCollections()
-        .then((items) => {
-          completedApiCalls.value++
-          return { items }
-        })
-        .catch(() => {
-          completedApiCalls.value++
-          return { items: [] }
-        })
+    // Fetch collections
+    const collectionsResult = await listCollections()
+      .then((items) => {
+        completedApiCalls.value++
+        return { items }
+      })
+      .catch(() => {
+        completedApiCalls.value++
+        return { items: [] }
+      })
 
-      newCollections = collectionsResult.items
+    newCollections = collectionsResult.items
 
-      const specialLocations: Record<string, 'unsorted' | 'trash' | 'templates' | 'daily_notes'> = {
-        unsorted: 'unsorted',
-        trash: 'trash',
-        templates: 'templates',
-        daily_notes: 'daily_notes',
-      }
+    const specialLocations: Record<string, 'unsorted' | 'trash' | 'templates' | 'daily_notes'> = {
+      unsorted: 'unsorted',
+      trash: 'trash',
+      templates: 'templates',
+      daily_notes: 'daily_notes',
+    }
 
-      async function fetchFolderDocuments(folder: CraftFolder) {
-        try {
-          const location = specialLocations[folder.id]
-          const result = await fetchDocuments(
-            location
-              ? { location, fetchMetadata: true }
-              : { folderId: folder.id, fetchMetadata: true },
-          )
-
-          completedApiCalls.value++
-
-          result.items.forEach((doc) => {
-            allDocuments.push({ ...doc, folderId: folder.id })
-          })
-
-          if (!location && folder.folders && folder.folders.length > 0) {
-            await Promise.all(folder.folders.map((subfolder) => fetchFolderDocuments(subfolder)))
-          }
-        } catch (e) {
-          completedApiCalls.value++
-          console.error(`Error fetching documents for folder ${folder.name}:`, e)
-        }
-      }
+    async function fetchFolderDocuments(folder: CraftFolder) {
+      try {
+        const location = specialLocations[folder.id]
+        const result = await fetchDocuments(
+          location
+            ? { location, fetchMetadata: true }
+            : { folderId: folder.id, fetchMetadata: true },
+        )
 
-      await Promise.all(newFolders.map((folder) => fetchFolderDocuments(folder)))
+        completedApiCalls.value++
 
-      // Update all refs at once after all data is fetched
-      folders.value = newFolders
-      collections.value = newCollections
-      documents.value = allDocuments
+        result.items.forEach((doc) => {
+          allDocuments.push({ ...doc, folderId: folder.id })
+        })
 
-      // Cache the data
-      cache.setCachedData(cacheKey, {
-        documents: allDocuments,
-        folders: folders.value,
-        collections: collections.value,
-      })
-    } catch (e) {
-      console.error('Error fetching graph data:', e)
-      throw e
-    } finally {
-      isLoading.value = false
+        if (!location && folder.folders && folder.folders.length > 0) {
+          await Promise.all(folder.folders.map((subfolder) => fetchFolderDocuments(subfolder)))
+        }
+      } catch (e) {
+        completedApiCalls.value++
+        console.error(`Error fetching documents for folder ${folder.name}:`, e)
+      }
     }
+
+    await Promise.all(newFolders.map((folder) => fetchFolderDocuments(folder)))
+
+    return { documents: allDocuments, folders: newFolders, collections: newCollections }
   }
 
   const initializeGraph = async (forceRefresh = false) => {
@@ -153,12 +182,12 @@ export const useGraphApiStore = defineStore('graphApi', () => {
   }
 
   const refreshGraph = async () => {
-    cache.clearCache('all-data')
+    await cache.clearCache('all-data')
     await fetchAllData(true)
   }
 
-  const clearAllCache = () => {
-    cache.clearAllCache()
+  const clearAllCache = async () => {
+    await cache.clearAllCache()
   }
 
   /**
@@ -168,7 +197,7 @@ export const useGraphApiStore = defineStore('graphApi', () => {
   const fetchTagRelations = async (forceRefresh = false) => {
     // Read user tags from localStorage
     const TAGS_STORAGE_KEY = 'craftboard-tags'
-    const stored = localStorage.getItem(TAGS_STORAGE_KEY)
+    const stored = localStorage.getItem(profileKey(TAGS_STORAGE_KEY))
     let tags: string[] = []
 
     if (stored) {
@@ -206,6 +235,19 @@ export const useGraphApiStore = defineStore('graphApi', () => {
     await fetchTagRelations(true)
   }
 
+  // Pick up graph data fetched by other tabs
+  cache.onRemoteChange<{
+    documents: CraftDocument[]
+    folders: CraftFolder[]
+    collections: GraphCollection[]
+  }>((key, data) => {
+    if (data && key === 'all-data') {
+      documents.value = data.documents
+      folders.value = data.folders
+      collections.value = data.collections
+    }
+  })
+
   return {
     documents: computed(() => documents.value),
     folders: computed(() => folders.value),
@@ -1,7 +1,7 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
-import { getApiUrl, getApiToken } from '../utils/craftApi'
-import { useApiCache } from '../composables/useApiCache'
+import { getApiUrl, getCollectionItems } from '../utils/craftApi'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 
 export interface MusicItem {
   id: string
@@ -25,8 +25,14 @@ export interface GenreItem {
   [key: string]: any
 }
 
+export const musicCachePolicy: CachePolicy = {
+  prefix: 'music-cache-',
+  label: 'Music',
+  defaultTtlMinutes: 1440,
+}
+
 export const useMusicApiStore = defineStore('musicApi', () => {
-  const cache = useApiCache('music-cache-')
+  const cache = useApiCache(musicCachePolicy.prefix, musicCachePolicy.defaultTtlMinutes)
 
   const music = ref<MusicItem[]>([])
   const artists = ref<ArtistItem[]>([])
@@ -34,14 +40,7 @@ export const useMusicApiStore = defineStore('musicApi', () => {
   const isLoading = ref(false)
   const totalApiCalls = ref(0)
   const completedApiCalls = ref(0)
-
-  const getHeaders = () => {
-    const token = getApiToken()
-    return {
-      Authorization: `Bearer ${token}`,
-      'Content-Type': 'application/json',
-    }
-  }
+  const currentCacheKey = ref<string | null>(null)
 
   const getCacheKey = (musicId: string, artistsId: string, genresId: string): string => {
     return `${musicId}-${artistsId}-${genresId}`
@@ -60,10 +59,11 @@ export const useMusicApiStore = defineStore('musicApi', () => {
     }
 
     const cacheKey = getCacheKey(musicCollectionId, artistCollectionId, genreCollectionId)
+    currentCacheKey.value = cacheKey
 
     // Check cache first (unless forcing refresh)
     if (!forceRefresh) {
-      const cached = cache.getCachedData<{
+      const cached = await cache.getCachedData<{
         music: MusicItem[]
         artists: ArtistItem[]
         genres: GenreItem[]
@@ -75,52 +75,46 @@ export const useMusicApiStore = defineStore('musicApi', () => {
         isLoading.value = false
         return
       }
+
+      // Expired: show it now and refresh in the background
+      const stale = await cache.getStaleData(
+        cacheKey,
+        () => loadCollectionData(musicCollectionId, artistCollectionId, genreCollectionId),
+        (data) => {
+          music.value = data.music
+          artists.value = data.artists
+          genres.value = data.genres
+        },
+      )
+      if (stale) {
+        music.value = stale.music || []
+        artists.value = stale.artists || []
+        genres.value = stale.genres || []
+        isLoading.value = false
+        return
+      }
     } else {
-      cache.clearCache(cacheKey)
+      await cache.clearCache(cacheKey)
     }
 
     isLoading.value = true
     completedApiCalls.value = 0
 
     try {
-      const [musicRes, artistsRes, genresRes] = await Promise.all([
-        fetch(`${apiBaseUrl}/collections/${musicCollectionId}/items?maxDepth=-1`, {
-          headers: getHeaders(),
-        }),
-        fetch(`${apiBaseUrl}/collections/${artistCollectionId}/items?maxDepth=-1`, {
-          headers: getHeaders(),
-        }),
-        fetch(`${apiBaseUrl}/collections/${genreCollectionId}/items?maxDepth=-1`, {
-          headers: getHeaders(),
-        }),
-      ])
+      const data = await loadCollectionData(
+        musicCollectionId,
+        artistCollectionId,
+        genreCollectionId,
+      )
 
       completedApiCalls.value += 3
 
-      if (!musicRes.ok || !artistsRes.ok || !genresRes.ok) {
-        throw new Error('Failed to fetch data from the server')
-      }
-
-      const [musicData, artistsData, genresData] = await Promise.all([
-        musicRes.json(),
-        artistsRes.json(),
-        genresRes.json(),
-      ])
-
-      const musicItems = musicData.items || []
-      const artistsItems = artistsData.items || []
-      const genresItems = genresData.items || []
-
-      music.value = musicItems
-      artists.value = artistsItems
-      genres.value = genresItems
+      music.value = data.music
+      artists.value = data.artists
+      genres.value = data.genres
 
       // Cache the data
-      cache.setCachedData(cacheKey, {
-        music: musicItems,
-        artists: artistsItems,
-        genres: genresItems,
-      })
+      await cache.setCachedData(cacheKey, data)
     } catch (error) {
       console.error('Error loading music data:', error)
       completedApiCalls.value += 3
@@ -130,6 +124,24 @@ export const useMusicApiStore = defineStore('musicApi', () => {
     }
   }
 
+  const loadCollectionData = async (
+    musicCollectionId: string,
+    artistCollectionId: string,
+    genreCollectionId: string,
+  ) => {
+    const [musicData, artistsData, genresData] = await Promise.all([
+      getCollectionItems(musicCollectionId, { maxDepth: -1, action: 'fetch music' }),
+      getCollectionItems(artistCollectionId, { maxDepth: -1, action: 'fetch artists' }),
+      getCollectionItems(genreCollectionId, { maxDepth: -1, action: 'fetch genres' }),
+    ])
+
+    return {
+      music: musicData as unknown as MusicItem[],
+      artists: artistsData as unknown as ArtistItem[],
+      genres: genresData as unknown as GenreItem[],
+    }
+  }
+
   const initializeMusic = async (
     musicCollectionId: string,
     artistCollectionId: string,
@@ -140,7 +152,7 @@ export const useMusicApiStore = defineStore('musicApi', () => {
     completedApiCalls.value = 0
 
     const cacheKey = getCacheKey(musicCollectionId, artistCollectionId, genreCollectionId)
-    if (forceRefresh || !cache.getCachedData(cacheKey)) {
+    if (forceRefresh || !(await cache.getCachedData(cacheKey))) {
       totalApiCalls.value = 3 // music + artists + genres
     }
 
@@ -158,14 +170,25 @@ export const useMusicApiStore = defineStore('musicApi', () => {
     genreCollectionId: string,
   ) => {
     const cacheKey = getCacheKey(musicCollectionId, artistCollectionId, genreCollectionId)
-    cache.clearCache(cacheKey)
+    await cache.clearCache(cacheKey)
     await initializeMusic(musicCollectionId, artistCollectionId, genreCollectionId, true)
   }
 
-  const clearAllCache = () => {
-    cache.clearAllCache()
+  const clearAllCache = async () => {
+    await cache.clearAllCache()
   }
 
+  // Pick up music, artists and genres fetched by other tabs
+  cache.onRemoteChange<{ music: MusicItem[]; artists: ArtistItem[]; genres: GenreItem[] }>(
+    (key, data) => {
+      if (data && key === currentCacheKey.value) {
+        music.value = data.music || []
+        artists.value = data.artists || []
+        genres.value = data.genres || []
+      }
+    },
+  )
+
   return {
     music: computed(() => music.value),
     artists: computed(() => artists.value),
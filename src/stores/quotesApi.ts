@@ -1,7 +1,7 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
 import { getCollectionItems } from '../utils/craftApi'
-import { useApiCache } from '../composables/useApiCache'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 
 export interface QuoteItem {
   id: string
@@ -10,27 +10,49 @@ export interface QuoteItem {
   author: string
 }
 
+export const quotesCachePolicy: CachePolicy = {
+  prefix: 'quotes-cache-',
+  label: 'Quotes',
+  defaultTtlMinutes: 1440,
+}
+
 export const useQuotesApiStore = defineStore('quotesApi', () => {
-  const cache = useApiCache('quotes-cache-')
+  const cache = useApiCache(quotesCachePolicy.prefix, quotesCachePolicy.defaultTtlMinutes)
 
   const quotes = ref<QuoteItem[]>([])
   const isLoading = ref(false)
   const totalApiCalls = ref(0)
   const completedApiCalls = ref(0)
+  const currentCollectionId = ref<string | null>(null)
 
   const fetchQuotes = async (collectionId: string, forceRefresh = false) => {
     const cacheKey = collectionId
+    currentCollectionId.value = collectionId
 
     // Check cache first (unless forcing refresh)
     if (!forceRefresh) {
-      const cached = cache.getCachedData<QuoteItem[]>(cacheKey)
+      const cached = await cache.getCachedData<QuoteItem[]>(cacheKey)
       if (cached) {
         quotes.value = cached
         isLoading.value = false
         return
       }
+
+      // Expired: show it now and refresh in the background
+      const stale = await cache.getStaleData(
+        cacheKey,
+        () => loadQuoteItems(collectionId),
+        (items) => {
+          quotes.value = items
+        },
+      )
+      if (stale) {
+        quotes.value = stale
+        isLoading.value = false
+        return
+      }
     } else {
-      cache.clearCache(cacheKey)
+      await cache.clearCache(cacheKey)
     }
 
     isLoading.value = true
@@ -38,45 +60,13 @@ export const useQuotesApiStore = defineStore('quotesApi', () => {
     totalApiCalls.value = 1
 
     try {
-      const items = await getCollectionItems(collectionId)
+      const validItems = await loadQuoteItems(collectionId)
       completedApiCalls.value++
 
-      const validItems: QuoteItem[] = items
-        .map((item: any) => {
-          const properties = item.properties || {}
-          let title = item.title || ''
-          if (title.trim().toLowerCase() === 'untitled') {
-            title = ''
-          }
-          const category =
-            properties.Category ||
-            properties.category ||
-            properties['Category'] ||
-            properties['category'] ||
-            ''
-          const author =
-            properties.Author ||
-            properties.author ||
-            properties['Author'] ||
-            properties['author'] ||
-            ''
-
-          if (title && category) {
-            return {
-              id: item.id,
-              title: String(title),
-              category: String(category),
-              author: String(author),
-            }
-          }
-          return null
-        })
-        .filter((item: QuoteItem | null): item is QuoteItem => item !== null)
-
       quotes.value = validItems
 
       // Cache items
-      cache.setCachedData(cacheKey, validItems)
+      await cache.setCachedData(cacheKey, validItems)
     } catch (error) {
       console.error('Error loading quotes:', error)
       completedApiCalls.value++
@@ -86,19 +76,62 @@ export const useQuotesApiStore = defineStore('quotesApi', () => {
     }
   }
 
+  // Fetch the collection and keep items with a quote and a category
+  const loadQuoteItems = async (collectionId: string): Promise<QuoteItem[]> => {
+    const items = await getCollectionItems(collectionId)
+    return items
+      .map((item: any) => {
+        const properties = item.properties || {}
+        let title = item.title || ''
+        if (title.trim().toLowerCase() === 'untitled') {
+          title = ''
+        }
+        const category =
+          properties.Category ||
+          properties.category ||
+          properties['Category'] ||
+          properties['category'] ||
+          ''
+        const author =
+          properties.Author ||
+          properties.author ||
+          properties['Author'] ||
+          properties['author'] ||
+          ''
+
+        if (title && category) {
+          return {
+            id: item.id,
+            title: String(title),
+            category: String(category),
+            author: String(author),
+          }
+        }
+        return null
+      })
+      .filter((item: QuoteItem | null): item is QuoteItem => item !== null)
+  }
+
   const initializeQuotes = async (collectionId: string, forceRefresh = false) => {
     await fetchQuotes(collectionId, forceRefresh)
   }
 
   const refreshQuotes = async (collectionId: string) => {
-    cache.clearCache(collectionId)
+    await cache.clearCache(collectionId)
     await fetchQuotes(collectionId, true)
   }
 
-  const clearAllCache = () => {
-    cache.clearAllCache()
+  const clearAllCache = async () => {
+    await cache.clearAllCache()
   }
 
+  // Pick up quotes fetched by other tabs
+  cache.onRemoteChange<QuoteItem[]>((collectionId, items) => {
+    if (items && collectionId === currentCollectionId.value) {
+      quotes.value = items
+    }
+  })
+
   return {
     quotes: computed(() => quotes.value),
     isLoading: computed(() => isLoading.value),
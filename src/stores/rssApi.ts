@@ -2,7 +2,7 @@ import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
 import { getCollectionItems } from '../utils/craftApi'
 import { fetchRSSFeed, type RSSFeed } from '../utils/rssParser'
-import { useApiCache } from '../composables/useApiCache'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 
 export interface RSSCollectionItem {
   id: string
@@ -12,6 +12,12 @@ export interface RSSCollectionItem {
   tags?: string[]
 }
 
+export const rssCachePolicy: CachePolicy = {
+  prefix: 'rss-cache-',
+  label: 'RSS feeds',
+  defaultTtlMinutes: 30,
+}
+
 export const useRSSApiStore = defineStore('rssApi', () => {
   // State
   const rssItems = ref<RSSCollectionItem[]>([])
@@ -24,7 +30,7 @@ export const useRSSApiStore = defineStore('rssApi', () => {
   const currentCollectionId = ref<string | null>(null)
 
   // Cache composable
-  const cache = useApiCache('rss-cache-')
+  const cache = useApiCache(rssCachePolicy.prefix, rssCachePolicy.defaultTtlMinutes)
 
   /**
    * Fetch collection items from API
@@ -81,9 +87,9 @@ export const useRSSApiStore = defineStore('rssApi', () => {
   /**
    * Save feeds to cache
    */
-  const saveFeedsToCache = () => {
+  const saveFeedsToCache = async () => {
     if (currentCollectionId.value) {
-      cache.setCachedData(currentCollectionId.value, {
+      await cache.setCachedData(currentCollectionId.value, {
         items: rssItems.value,
         feeds: rssFeeds.value,
       })
@@ -112,7 +118,7 @@ export const useRSSApiStore = defineStore('rssApi', () => {
       if (feed) {
         rssFeeds.value[item.id] = feed
         // Update cache with new feed
-        saveFeedsToCache()
+        await saveFeedsToCache()
       } else {
         console.warn(`Failed to fetch or parse feed for ${item.title}`)
       }
@@ -131,6 +137,33 @@ export const useRSSApiStore = defineStore('rssApi', () => {
     await Promise.all(feedPromises)
   }
 
+  /**
+   * Fetch items and all their feeds in one go (background refresh of stale cache).
+   * Feeds that fail to load keep their previous version.
+   */
+  const loadItemsAndFeeds = async (
+    collectionId: string,
+  ): Promise<{ items: RSSCollectionItem[]; feeds: Record<string, RSSFeed> }> => {
+    const items = await fetchCollectionItems(collectionId)
+    const feeds: Record<string, RSSFeed> = {}
+    await Promise.all(
+      items.map(async (item) => {
+        try {
+          const feed = await fetchRSSFeed(item.url)
+          const previous = rssFeeds.value[item.id]
+          if (feed) {
+            feeds[item.id] = feed
+          } else if (previous) {
+            feeds[item.id] = previous
+          }
+        } catch (err) {
+          console.error(`Error fetching RSS feed for ${item.title}:`, err)
+        }
+      }),
+    )
+    return { items, feeds }
+  }
+
   /**
    * Initialize RSS data (load items and feeds)
    */
@@ -147,7 +180,7 @@ export const useRSSApiStore = defineStore('rssApi', () => {
     try {
       // Check cache first
       if (!forceRefresh) {
-        const cached = cache.getCachedData<{
+        const cached = await cache.getCachedData<{
           items: RSSCollectionItem[]
           feeds: Record<string, RSSFeed>
         }>(collectionId)
@@ -158,8 +191,24 @@ export const useRSSApiStore = defineStore('rssApi', () => {
           // Don't fetch feeds again - use cached data
           return
         }
+
+        // Expired: show it now and refresh items and feeds in the background
+        const stale = await cache.getStaleData(
+          collectionId,
+          () => loadItemsAndFeeds(collectionId),
+          (data) => {
+            rssItems.value = data.items
+            rssFeeds.value = data.feeds
+          },
+        )
+        if (stale && Array.isArray(stale.items)) {
+          rssItems.value = stale.items
+          rssFeeds.value = stale.feeds || {}
+          isLoading.value = false
+          return
+        }
       } else {
-        cache.clearCache(collectionId)
+        await cache.clearCache(collectionId)
       }
 
       // Don't clear rssItems/rssFeeds here - keep existing data while reloading
@@ -172,7 +221,7 @@ export const useRSSApiStore = defineStore('rssApi', () => {
       rssItems.value = items
 
       // Cache items (feeds will be cached as they are fetched)
-      saveFeedsToCache()
+      await saveFeedsToCache()
 
       // Fetch RSS feeds
       await fetchAllFeeds()
@@ -198,6 +247,16 @@ export const useRSSApiStore = defineStore('rssApi', () => {
     await fetchFeedForItem(item, true)
   }
 
+  // Pick up items and feeds fetched by other tabs
+  cache.onRemoteChange<{ items: RSSCollectionItem[]; feeds: Record<string, RSSFeed> }>(
+    (collectionId, data) => {
+      if (data && Array.isArray(data.items) && collectionId === currentCollectionId.value) {
+        rssItems.value = data.items
+        rssFeeds.value = data.feeds || {}
+      }
+    },
+  )
+
   return {
     // State
     rssItems: computed(() => rssItems.value),
@@ -1,6 +1,6 @@
 import { ref, computed } from 'vue'
 import { defineStore } from 'pinia'
-import { useApiCache } from '../composables/useApiCache'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 import {
   fetchDocuments,
   listCollections,
@@ -16,8 +16,14 @@ export interface StatsData {
   folders: CraftFolder[]
 }
 
+export const statsCachePolicy: CachePolicy = {
+  prefix: 'stats-cache-',
+  label: 'Workspace stats',
+  defaultTtlMinutes: 360,
+}
+
 export const useStatsApiStore = defineStore('statsApi', () => {
-  const cache = useApiCache('stats-cache-')
+  const cache = useApiCache(statsCachePolicy.prefix, statsCachePolicy.defaultTtlMinutes)
 
   const documents = ref<CraftDocument[]>([])
   const collections = ref<Collection[]>([])
@@ -33,7 +39,7 @@ export const useStatsApiStore = defineStore('statsApi', () => {
 
   async function initializeStats(forceRefresh = false) {
     if (!forceRefresh) {
-      const cached = cache.getCachedData<StatsData>('all')
+      const cached = await cache.getCachedData<StatsData>('all')
       // Validate cached data is in correct format (arrays, not objects with items)
       if (
         cached &&
@@ -41,9 +47,14 @@ export const useStatsApiStore = defineStore('statsApi', () => {
         Array.isArray(cached.collections) &&
         Array.isArray(cached.folders)
       ) {
-        documents.value = cached.documents
-        collections.value = cached.collections
-        folders.value = cached.folders
+        setStats(cached)
+        return
+      }
+
+      // Expired: show it now and refresh in the background
+      const stale = await cache.getStaleData('all', loadStats, setStats)
+      if (stale && Array.isArray(stale.documents)) {
+        setStats(stale)
         return
       }
     }
@@ -55,7 +66,13 @@ export const useStatsApiStore = defineStore('statsApi', () => {
     await initializeStats(true)
   }
 
-  async function fetchStats() {
+  function setStats(stats: StatsData) {
+    documents.value = stats.documents
+    collections.value = stats.collections
+    folders.value = stats.folders
+  }
+
+  async function loadStats(): Promise<StatsData> {
     // Fetch all data in parallel (fetchMetadata: true to get lastModifiedAt/createdAt)
     const [docsResponse, cols, foldersResponse] = await Promise.all([
       fetchDocuments({ fetchMetadata: true }),
@@ -63,26 +80,33 @@ export const useStatsApiStore = defineStore('statsApi', () => {
       fetchFolders(),
     ])
 
-    documents.value = docsResponse.items
-    collections.value = cols
-    folders.value = foldersResponse.items
-
-    const statsData: StatsData = {
+    return {
       documents: docsResponse.items,
       collections: cols,
       folders: foldersResponse.items,
     }
+  }
 
-    cache.setCachedData('all', statsData)
+  async function fetchStats() {
+    const statsData = await loadStats()
+    setStats(statsData)
+    await cache.setCachedData('all', statsData)
   }
 
-  function clearAllCache() {
-    cache.clearAllCache()
+  async function clearAllCache() {
+    await cache.clearAllCache()
     documents.value = []
     collections.value = []
     folders.value = []
   }
 
+  // Pick up stats fetched by other tabs
+  cache.onRemoteChange<StatsData>((key, stats) => {
+    if (stats && key === 'all') {
+      setStats(stats)
+    }
+  })
+
   return {
     data,
     documents,
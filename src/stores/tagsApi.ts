@@ -1,9 +1,19 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import { getApiUrl } from '../utils/craftApi'
-import { useApiCache } from '../composables/useApiCache'
+import { craftRequest, getApiToken, getApiUrl, type BlockContent } from '../utils/craftApi'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 import { isFeatureEnabled } from '../config/featureFlags'
 
+// One match of a document search, with the markdown of the matching block
+interface SearchMatch {
+  documentId: string
+  title?: string
+  markdown?: string
+  dailyNoteDate?: string
+  createdAt?: string
+  lastModifiedAt?: string
+}
+
 export interface LogEntry {
   documentId: string
   documentTitle: string
@@ -16,15 +26,22 @@ export interface LogEntry {
   clickableLink?: string
 }
 
+export const tagsCachePolicy: CachePolicy = {
+  prefix: 'tags-cache-',
+  label: 'Tags',
+  defaultTtlMinutes: 60,
+}
+
 export const useTagsApiStore = defineStore('tagsApi', () => {
   // State
   const logs = ref<LogEntry[]>([])
+  const currentLogsKey = ref<string | null>(null)
   const isLoading = ref(false)
   const error = ref<string | null>(null)
   const totalApiCalls = ref(0)
   const completedApiCalls = ref(0)
   // Cache composable
-  const cache = useApiCache('tags-cache-')
+  const cache = useApiCache(tagsCachePolicy.prefix, tagsCachePolicy.defaultTtlMinutes)
 
   /**
    * Extract tags from markdown
@@ -112,6 +129,99 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
     return entries
   }
 
+  /**
+   * Fetch log entries for the given tags, sorted by date (most recent first)
+   */
+  const fetchLogEntries = async (tags: string[]): Promise<LogEntry[]> => {
+    const apiUrl = getApiUrl()
+    if (!apiUrl) {
+      throw new Error('Craft API URL not configured')
+    }
+
+    if (!getApiToken()) {
+      throw new Error('Craft API token not configured')
+    }
+
+    // Step 1: Search for documents containing the tags
+    const patterns = tags.map((tag) => `#${tag}(?:\/[\w-]+)?`).join('|')
+    const regexPattern = patterns || '#[\w-]+(?:\/[\w-]+)?'
+
+    const searchData = await craftRequest<{ items?: SearchMatch[] }>(
+      `/documents/search?regexps=${encodeURIComponent(regexPattern)}&fetchMetadata=true`,
+      { action: 'search documents' },
+    )
+    const rawDocuments = searchData.items || []
+
+    // Deduplicate documents by documentId (same document may appear multiple times
+    // if it contains multiple matching tags)
+    const documents = Array.from(new Map(rawDocuments.map((doc) => [doc.documentId, doc])).values())
+
+    // Step 2: Either fetch detailed block data or use document-level data
+    const fetchDetailedDates = isFeatureEnabled('detailedTagDates')
+    const logEntries: LogEntry[] = []
+
+    if (fetchDetailedDates) {
+      // Detailed mode: fetch blocks for each document with metadata
+      totalApiCalls.value = documents.length
+      completedApiCalls.value = 0
+
+      for (const doc of documents) {
+        try {
+          const blockData = await craftRequest<BlockContent>(
+            `/blocks?id=${encodeURIComponent(doc.documentId)}&fetchMetadata=true`,
+            { action: 'fetch blocks' },
+          )
+          const documentTitle = doc.title || 'Untitled'
+
+          // Extract all blocks with tags from the tree
+          const blockEntries = extractBlocksWithTags(blockData, doc.documentId, documentTitle, tags)
+          logEntries.push(...blockEntries)
+        } catch (blockError) {
+          console.error(`Error fetching blocks for document ${doc.documentId}:`, blockError)
+        } finally {
+          completedApiCalls.value++
+        }
+      }
+    } else {
+      // Fast mode: use data directly from search results (no extra API calls)
+      // Each item in rawDocuments is already a match with markdown snippet
+      totalApiCalls.value = 0
+      completedApiCalls.value = 0
+
+      for (const doc of rawDocuments) {
+        const markdown = doc.markdown || ''
+        const createdAt = doc.createdAt || undefined
+
+        // Extract tags from the markdown snippet
+        const foundTags = extractMatchingTags(markdown, '').filter((t) => tags.includes(t))
+
+        if (foundTags.length > 0) {
+          logEntries.push({
+            documentId: doc.documentId,
+            documentTitle: doc.title || 'Untitled',
+            blockId: doc.documentId,
+            markdown,
+            createdAt,
+            lastModifiedAt: doc.lastModifiedAt || undefined,
+            date: createdAt,
+            tags: foundTags,
+            clickableLink: undefined,
+          })
+        }
+      }
+    }
+
+    // Sort by date (most recent first)
+    logEntries.sort((a, b) => {
+      if (!a.date && !b.date) return 0
+      if (!a.date) return 1
+      if (!b.date) return -1
+      return b.date.localeCompare(a.date)
+    })
+
+    return logEntries
+  }
+
   /**
    * Load logs for given tags
    */
@@ -121,13 +231,28 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
       return []
     }
 
+    currentLogsKey.value = tags.join('-')
+
     // Check cache first if not forcing refresh
     if (!forceRefresh) {
-      const cachedData = cache.getCachedData<LogEntry[]>(tags.join('-'))
+      const cachedData = await cache.getCachedData<LogEntry[]>(tags.join('-'))
       if (cachedData) {
         logs.value = cachedData
         return cachedData
       }
+
+      // Expired: show it now and refresh in the background
+      const staleData = await cache.getStaleData(
+        tags.join('-'),
+        () => fetchLogEntries(tags),
+        (entries) => {
+          logs.value = entries
+        },
+      )
+      if (staleData) {
+        logs.value = staleData
+        return staleData
+      }
     }
 
     isLoading.value = true
@@ -135,126 +260,12 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
     // Don't clear logs here - keep existing data while reloading
 
     try {
-      const apiUrl = getApiUrl()
-      if (!apiUrl) {
-        throw new Error('Craft API URL not configured')
-      }
-
-      const token = localStorage.getItem('craft-api-token')
-      if (!token) {
-        throw new Error('Craft API token not configured')
-      }
-
-      // Step 1: Search for documents containing the tags
-      const patterns = tags.map((tag) => `#${tag}(?:\/[\w-]+)?`).join('|')
-      const regexPattern = patterns || '#[\w-]+(?:\/[\w-]+)?'
-
-      const searchResponse = await fetch(
-        `${apiUrl}/documents/search?regexps=${encodeURIComponent(regexPattern)}&fetchMetadata=true`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        },
-      )
-
-      if (!searchResponse.ok) {
-        throw new Error(`Failed to search documents: ${searchResponse.statusText}`)
-      }
-
-      const searchData = await searchResponse.json()
-      const rawDocuments = searchData.items || []
-
-      // Deduplicate documents by documentId (same document may appear multiple times
-      // if it contains multiple matching tags)
-      const documents = Array.from(
-        new Map(rawDocuments.map((doc: any) => [doc.documentId, doc])).values(),
-      )
-
-      // Step 2: Either fetch detailed block data or use document-level data
-      const fetchDetailedDates = isFeatureEnabled('detailedTagDates')
-      const logEntries: LogEntry[] = []
-
-      if (fetchDetailedDates) {
-        // Detailed mode: fetch blocks for each document with metadata
-        totalApiCalls.value = documents.length
-        completedApiCalls.value = 0
-
-        for (const doc of documents) {
-          try {
-            const blocksResponse = await fetch(
-              `${apiUrl}/blocks?id=${encodeURIComponent(doc.documentId)}&fetchMetadata=true`,
-              {
-                method: 'GET',
-                headers: {
-                  Authorization: `Bearer ${token}`,
-                  'Content-Type': 'application/json',
-                },
-              },
-            )
-
-            completedApiCalls.value++
-
-            if (blocksResponse.ok) {
-              const blockData = await blocksResponse.json()
-              const documentTitle = doc.title || 'Untitled'
-
-              // Extract all blocks with tags from the tree
-              const blockEntries = extractBlocksWithTags(
-                blockData,
-                doc.documentId,
-                documentTitle,
-                tags,
-              )
-              logEntries.push(...blockEntries)
-            }
-          } catch (blockError) {
-            console.error(`Error fetching blocks for document ${doc.documentId}:`, blockError)
-          }
-        }
-      } else {
-        // Fast mode: use data directly from search results (no extra API calls)
-        // Each item in rawDocuments is already a match with markdown snippet
-        totalApiCalls.value = 0
-        completedApiCalls.value = 0
-
-        for (const doc of rawDocuments) {
-          const markdown = doc.markdown || ''
-          const createdAt = doc.createdAt || undefined
-
-          // Extract tags from the markdown snippet
-          const foundTags = extractMatchingTags(markdown, '').filter((t) => tags.includes(t))
-
-          if (foundTags.length > 0) {
-            logEntries.push({
-              documentId: doc.documentId,
-              documentTitle: doc.title || 'Untitled',
-              blockId: doc.documentId,
-              markdown,
-              createdAt,
-              lastModifiedAt: doc.lastModifiedAt || undefined,
-              date: createdAt,
-              tags: foundTags,
-              clickableLink: undefined,
-            })
-          }
-        }
-      }
-
-      // Sort by date (most recent first)
-      logEntries.sort((a, b) => {
-        if (!a.date && !b.date) return 0
-        if (!a.date) return 1
-        if (!b.date) return -1
-        return b.date.localeCompare(a.date)
-      })
+      const logEntries = await fetchLogEntries(tags)
 
       logs.value = logEntries
 
       // Save to cache
-      cache.setCachedData(tags.join('-'), logEntries)
+      await cache.setCachedData(tags.join('-'), logEntries)
 
       return logEntries
     } catch (err) {
@@ -293,7 +304,7 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
     // Check cache first if not forcing refresh
     if (!forceRefresh) {
       const cachedData =
-        cache.getCachedData<
+        await cache.getCachedData<
           Array<{ documentId: string; title: string; tags: string[]; dailyNoteDate?: string }>
         >(cacheKey)
       if (cachedData) {
@@ -312,8 +323,7 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
         return new Map()
       }
 
-      const token = localStorage.getItem('craft-api-token')
-      if (!token) {
+      if (!getApiToken()) {
         return new Map()
       }
 
@@ -321,27 +331,15 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
       const patterns = tags.map((tag) => `#${tag}(?:\\/[\\w-]+)?`).join('|')
       const regexPattern = patterns || '#[\\w-]+(?:\\/[\\w-]+)?'
 
-      const searchResponse = await fetch(
-        `${apiUrl}/documents/search?regexps=${encodeURIComponent(regexPattern)}&fetchMetadata=true`,
-        {
-          method: 'GET',
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-          },
-        },
+      const searchData = await craftRequest<{ items?: SearchMatch[] }>(
+        `/documents/search?regexps=${encodeURIComponent(regexPattern)}&fetchMetadata=true`,
+        { action: 'search documents' },
       )
-
-      if (!searchResponse.ok) {
-        return new Map()
-      }
-
-      const searchData = await searchResponse.json()
       const rawDocuments = searchData.items || []
 
       // Deduplicate documents by documentId
       const documents = Array.from(
-        new Map(rawDocuments.map((doc: any) => [doc.documentId, doc])).values(),
+        new Map(rawDocuments.map((doc) => [doc.documentId, doc])).values(),
       )
 
       // For each document, we need to determine which of the user's tags it contains
@@ -359,57 +357,47 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
 
       for (const doc of documents) {
         try {
-          const blocksResponse = await fetch(
-            `${apiUrl}/blocks?id=${encodeURIComponent(doc.documentId)}&maxDepth=2`,
-            {
-              method: 'GET',
-              headers: {
-                Authorization: `Bearer ${token}`,
-                'Content-Type': 'application/json',
-              },
-            },
+          const blockData = await craftRequest<BlockContent>(
+            `/blocks?id=${encodeURIComponent(doc.documentId)}&maxDepth=2`,
+            { action: 'fetch blocks' },
           )
 
-          if (blocksResponse.ok) {
-            const blockData = await blocksResponse.json()
-
-            // Extract all tags from the document
-            const extractTagsFromBlock = (block: any): string[] => {
-              const foundTags: string[] = []
-              if (block.markdown) {
-                const blockTags = extractMatchingTags(block.markdown, '')
-                foundTags.push(...blockTags)
-              }
-              if (block.content && Array.isArray(block.content)) {
-                for (const child of block.content) {
-                  foundTags.push(...extractTagsFromBlock(child))
-                }
+          // Extract all tags from the document
+          const extractTagsFromBlock = (block: any): string[] => {
+            const foundTags: string[] = []
+            if (block.markdown) {
+              const blockTags = extractMatchingTags(block.markdown, '')
+              foundTags.push(...blockTags)
+            }
+            if (block.content && Array.isArray(block.content)) {
+              for (const child of block.content) {
+                foundTags.push(...extractTagsFromBlock(child))
               }
-              return foundTags
             }
+            return foundTags
+          }
 
-            const allFoundTags = [...new Set(extractTagsFromBlock(blockData))]
-            // Filter to only include tags the user is tracking
-            const matchingTags = allFoundTags.filter((t) => tags.includes(t))
-
-            if (matchingTags.length > 0) {
-              const entry: {
-                documentId: string
-                title: string
-                tags: string[]
-                dailyNoteDate?: string
-              } = {
-                documentId: doc.documentId,
-                title: doc.title || 'Untitled',
-                tags: matchingTags,
-              }
-              // Include dailyNoteDate if present (for proper label formatting)
-              if (doc.dailyNoteDate) {
-                entry.dailyNoteDate = doc.dailyNoteDate
-              }
-              result.set(doc.documentId, entry)
-              dataToCache.push(entry)
+          const allFoundTags = [...new Set(extractTagsFromBlock(blockData))]
+          // Filter to only include tags the user is tracking
+          const matchingTags = allFoundTags.filter((t) => tags.includes(t))
+
+          if (matchingTags.length > 0) {
+            const entry: {
+              documentId: string
+              title: string
+              tags: string[]
+              dailyNoteDate?: string
+            } = {
+              documentId: doc.documentId,
+              title: doc.title || 'Untitled',
+              tags: matchingTags,
+            }
+            // Include dailyNoteDate if present (for proper label formatting)
+            if (doc.dailyNoteDate) {
+              entry.dailyNoteDate = doc.dailyNoteDate
             }
+            result.set(doc.documentId, entry)
+            dataToCache.push(entry)
           }
         } catch {
           // Continue with other documents
@@ -417,7 +405,7 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
       }
 
       // Cache the results
-      cache.setCachedData(cacheKey, dataToCache)
+      await cache.setCachedData(cacheKey, dataToCache)
 
       return result
     } catch {
@@ -425,6 +413,13 @@ export const useTagsApiStore = defineStore('tagsApi', () => {
     }
   }
 
+  // Pick up logs fetched by other tabs for the same tags
+  cache.onRemoteChange<LogEntry[]>((key, entries) => {
+    if (entries && key === currentLogsKey.value) {
+      logs.value = entries
+    }
+  })
+
   return {
     // State
     logs: computed(() => logs.value),
@@ -1,12 +1,63 @@
-import { ref, computed } from 'vue'
+import { ref, computed, type Ref } from 'vue'
 import { defineStore } from 'pinia'
-import { fetchTasks, fetchDocuments, type CraftTask, type CraftDocument } from '../utils/craftApi'
+import {
+  fetchTasks,
+  fetchDocuments,
+  streamTasks,
+  updateTask as updateCraftTask,
+  createTask as createCraftTask,
+  applyTaskChanges,
+  type CraftTask,
+  type CraftTaskChanges,
+  type NewCraftTask,
+  type CraftDocument,
+} from '../utils/craftApi'
 import { fetchCalendarEvents, type CalendarEvent } from '../utils/icalParser'
-import { useApiCache } from '../composables/useApiCache'
+import { useApiCache, type CachePolicy } from '../composables/useApiCache'
 import { useTasksStore } from './tasks'
 
+// Position of a task in one of the store's lists, kept so a failed write can restore it
+interface TaskPlacement {
+  list: Ref<CraftTask[]>
+  index: number
+  task: CraftTask
+}
+
+export const tasksCachePolicy: CachePolicy = {
+  prefix: 'tasks-cache-',
+  label: 'Tasks',
+  defaultTtlMinutes: 30,
+}
+
+export const calendarCachePolicy: CachePolicy = {
+  prefix: 'calendar-cache-',
+  label: 'Calendar events',
+  defaultTtlMinutes: 15,
+}
+
+/**
+ * Cache key of the events of a set of calendars. The URLs are part of the key, so adding or
+ * removing a calendar in Settings doesn't serve the events of the old set.
+ */
+const getCalendarEventsKey = (calendarUrls: string[]): string => {
+  const urls = [...new Set(calendarUrls.filter((url) => url && url.trim() !== ''))].sort()
+  let hash = 0
+  for (const char of urls.join('\n')) {
+    hash = (Math.imul(hash, 31) + char.charCodeAt(0)) | 0
+  }
+  return `events-${(hash >>> 0).toString(36)}`
+}
+
+// How long to wait for another tab to refill a cache it invalidated before fetching it here
+const REMOTE_RELOAD_DELAY_MS = 2000
+
 export const useTasksApiStore = defineStore('tasksApi', () => {
-  const cache = useApiCache('tasks-cache-')
+  const cache = useApiCache(tasksCachePolicy.prefix, tasksCachePolicy.defaultTtlMinutes)
+  const calendarCache = useApiCache(
+    calendarCachePolicy.prefix,
+    calendarCachePolicy.defaultTtlMinutes,
+  )
+  const documentTasksCache = useApiCache('document-tasks-cache-')
   const tasksStore = useTasksStore()
 
   const inboxTasks = ref<CraftTask[]>([])
@@ -15,44 +66,92 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
   const logbookTasks = ref<CraftTask[]>([])
   const dailyNotesDoneTasks = ref<CraftTask[]>([])
   const loadedWeeks = ref<Set<string>>(new Set())
+  // First day of each loaded week, to reload it when another tab invalidates it
+  const weekStarts = new Map<string, Date>()
   const isLoadingLogbook = ref(false)
   const isLoadingWeekTasks = ref(false)
   const dailyNotes = ref<Map<string, CraftDocument>>(new Map())
   const calendarEvents = ref<CalendarEvent[]>([])
+  // Cache key of the calendars whose events are shown
+  let calendarEventsKey: string | null = null
   const isLoading = ref(false)
   const isLoadingCalendar = ref(false)
   const totalApiCalls = ref(0)
   const completedApiCalls = ref(0)
+  const pendingTaskIds = ref<Set<string>>(new Set())
+
+  const taskListRefs = { inbox: inboxTasks, active: activeTasks, upcoming: upcomingTasks }
 
   const loadTaskType = async (
     type: 'inbox' | 'active' | 'upcoming',
     forceRefresh = false,
   ): Promise<CraftTask[]> => {
-    const cached = cache.getCachedData<CraftTask[]>(type)
+    const cached = await cache.getCachedData<CraftTask[]>(type)
     if (!forceRefresh && cached) {
       return cached
     }
 
+    // Expired: use it now and swap in the refreshed list when it arrives
+    if (!forceRefresh) {
+      const stale = await cache.getStaleData(
+        type,
+        async () => (await fetchTasks(type)).items,
+        (items) => {
+          taskListRefs[type].value = items
+          tasksStore.setAllTasks(inboxTasks.value, activeTasks.value, upcomingTasks.value)
+        },
+      )
+      if (stale) {
+        return stale
+      }
+    }
+
     const result = await fetchTasks(type)
-    cache.setCachedData(type, result.items)
+    await cache.setCachedData(type, result.items)
     completedApiCalls.value++
     return result.items
   }
 
   // Lazy load logbook tasks (only when user clicks Done tab)
   const loadLogbook = async (forceRefresh = false): Promise<CraftTask[]> => {
-    const cached = cache.getCachedData<CraftTask[]>('logbook')
+    const cached = await cache.getCachedData<CraftTask[]>('logbook')
     if (!forceRefresh && cached) {
       logbookTasks.value = cached
       return cached
     }
 
+    // Expired: show it now and refresh in the background
+    if (!forceRefresh) {
+      const stale = await cache.getStaleData(
+        'logbook',
+        async () => {
+          let items: CraftTask[] = []
+          for await (const page of streamTasks('logbook')) {
+            items = [...items, ...page]
+          }
+          return items
+        },
+        (items) => {
+          logbookTasks.value = items
+        },
+      )
+      if (stale) {
+        logbookTasks.value = stale
+        return stale
+      }
+    }
+
     isLoadingLogbook.value = true
     try {
-      const result = await fetchTasks('logbook')
-      logbookTasks.value = result.items
-      cache.setCachedData('logbook', result.items)
-      return result.items
+      // Stream pages so the Done tab renders the most recent tasks while older ones load
+      let items: CraftTask[] = []
+      for await (const page of streamTasks('logbook')) {
+        items = [...items, ...page]
+        logbookTasks.value = items
+      }
+      logbookTasks.value = items
+      await cache.setCachedData('logbook', items)
+      return items
     } catch (error) {
       console.error('Error loading logbook:', error)
       return []
@@ -82,6 +181,7 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
   // Load completed tasks from daily notes for a specific week
   const loadWeekTasks = async (weekStart: Date, forceRefresh = false): Promise<CraftTask[]> => {
     const weekKey = getWeekKey(weekStart)
+    weekStarts.set(weekKey, weekStart)
 
     // Check if already loaded (and not forcing refresh)
     if (!forceRefresh && loadedWeeks.value.has(weekKey)) {
@@ -90,7 +190,7 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
 
     // Check cache
     const cacheKey = `week-tasks-${weekKey}`
-    const cached = cache.getCachedData<CraftTask[]>(cacheKey)
+    const cached = await cache.getCachedData<CraftTask[]>(cacheKey)
     if (!forceRefresh && cached) {
       // Merge with existing tasks (avoid duplicates)
       const existingIds = new Set(dailyNotesDoneTasks.value.map((t) => t.id))
@@ -133,7 +233,7 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
       const weekTasks = allTasksArrays.flat()
 
       // Cache the week's tasks
-      cache.setCachedData(cacheKey, weekTasks)
+      await cache.setCachedData(cacheKey, weekTasks)
 
       // Merge with existing tasks (avoid duplicates)
       const existingIds = new Set(dailyNotesDoneTasks.value.map((t) => t.id))
@@ -155,30 +255,41 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
     return loadedWeeks.value.has(getWeekKey(weekStart))
   }
 
+  // Daily notes keyed by date (YYYY-MM-DD)
+  const fetchDailyNotesMap = async (): Promise<Map<string, CraftDocument>> => {
+    const result = await fetchDocuments({ location: 'daily_notes', fetchMetadata: true })
+    const notesMap = new Map<string, CraftDocument>()
+
+    result.items.forEach((doc) => {
+      if (doc.dailyNoteDate) {
+        notesMap.set(doc.dailyNoteDate, doc)
+      }
+    })
+    return notesMap
+  }
+
   const loadDailyNotes = async (forceRefresh = false): Promise<boolean> => {
     try {
       // Check cache first
       if (!forceRefresh) {
-        const cached = cache.getCachedData<Array<[string, CraftDocument]>>('daily_notes')
+        const cached = await cache.getCachedData<Map<string, CraftDocument>>('daily_notes')
         if (cached) {
           dailyNotes.value = new Map(cached)
           return false // No API call made
         }
-      }
-
-      const result = await fetchDocuments({ location: 'daily_notes', fetchMetadata: true })
-      const notesMap = new Map<string, CraftDocument>()
 
-      result.items.forEach((doc) => {
-        if (doc.dailyNoteDate) {
-          notesMap.set(doc.dailyNoteDate, doc)
+        const stale = await cache.getStaleData('daily_notes', fetchDailyNotesMap, (notesMap) => {
+          dailyNotes.value = notesMap
+        })
+        if (stale) {
+          dailyNotes.value = new Map(stale)
+          return false // Refreshed in the background
         }
-      })
+      }
 
+      const notesMap = await fetchDailyNotesMap()
       dailyNotes.value = notesMap
-      // Convert Map to array for storage
-      const dataArray = Array.from(notesMap.entries())
-      cache.setCachedData('daily_notes', dataArray)
+      await cache.setCachedData('daily_notes', notesMap)
       return true // API call made
     } catch (error) {
       console.error('Error loading daily notes:', error)
@@ -187,6 +298,19 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
     }
   }
 
+  // Fetch events from all calendars in parallel
+  const fetchAllCalendarEvents = async (urls: string[]): Promise<CalendarEvent[]> => {
+    const eventPromises = urls.map((url) =>
+      fetchCalendarEvents(url.trim()).catch((error) => {
+        console.error(`Error fetching calendar from ${url}:`, error)
+        return [] // Return empty array on error so other calendars still load
+      }),
+    )
+
+    const allEventsArrays = await Promise.all(eventPromises)
+    return allEventsArrays.flat()
+  }
+
   const loadCalendarEvents = async (
     calendarUrls: string[],
     forceRefresh = false,
@@ -196,39 +320,40 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
 
     if (validUrls.length === 0) {
       calendarEvents.value = []
+      calendarEventsKey = null
       return false // No API call made
     }
 
+    const key = getCalendarEventsKey(validUrls)
+    calendarEventsKey = key
     try {
       // Check cache first
       if (!forceRefresh) {
-        const cached = cache.getCachedData<CalendarEvent[]>('calendar_events')
+        const cached = await calendarCache.getCachedData<CalendarEvent[]>(key)
         if (cached) {
-          // Convert date strings back to Date objects
-          calendarEvents.value = cached.map((event) => ({
-            ...event,
-            start: new Date(event.start),
-            end: new Date(event.end),
-          }))
+          calendarEvents.value = cached
           return false // No API call made
         }
+
+        const stale = await calendarCache.getStaleData(
+          key,
+          () => fetchAllCalendarEvents(validUrls),
+          (events) => {
+            if (calendarEventsKey === key) calendarEvents.value = events
+          },
+        )
+        if (stale) {
+          calendarEvents.value = stale
+          return false // Refreshed in the background
+        }
       }
 
       isLoadingCalendar.value = true
 
-      // Fetch events from all calendars in parallel
-      const eventPromises = validUrls.map((url) =>
-        fetchCalendarEvents(url.trim()).catch((error) => {
-          console.error(`Error fetching calendar from ${url}:`, error)
-          return [] // Return empty array on error so other calendars still load
-        }),
-      )
-
-      const allEventsArrays = await Promise.all(eventPromises)
-      const allEvents = allEventsArrays.flat()
-
-      calendarEvents.value = allEvents
-      cache.setCachedData('calendar_events', calendarEvents.value)
+      const events = await fetchAllCalendarEvents(validUrls)
+      // Calendars may have changed while fetching
+      if (calendarEventsKey === key) calendarEvents.value = events
+      await calendarCache.setCachedData(key, events)
       return true // API call made
     } catch (error) {
       console.error('Error loading calendar events:', error)
@@ -248,11 +373,12 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
       // Count API calls needed (only count if not cached or force refresh)
       let apiCallCount = 0
 
-      if (forceRefresh || !cache.getCachedData('inbox')) apiCallCount++
-      if (forceRefresh || !cache.getCachedData('active')) apiCallCount++
-      if (forceRefresh || !cache.getCachedData('upcoming')) apiCallCount++
-      if (forceRefresh || !cache.getCachedData('daily_notes')) apiCallCount++
-      if (forceRefresh || !cache.getCachedData('calendar_events')) apiCallCount++
+      if (forceRefresh || !(await cache.getCachedData('inbox'))) apiCallCount++
+      if (forceRefresh || !(await cache.getCachedData('active'))) apiCallCount++
+      if (forceRefresh || !(await cache.getCachedData('upcoming'))) apiCallCount++
+      if (forceRefresh || !(await cache.getCachedData('daily_notes'))) apiCallCount++
+      if (forceRefresh || !(await calendarCache.getCachedData(getCalendarEventsKey(calendarUrls))))
+        apiCallCount++
 
       totalApiCalls.value = apiCallCount
 
@@ -287,26 +413,259 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
   }
 
   const refreshTasks = async (calendarUrls: string[]) => {
-    cache.clearCache('inbox')
-    cache.clearCache('active')
-    cache.clearCache('upcoming')
-    cache.clearCache('logbook')
-    cache.clearCache('daily_notes')
-    cache.clearCache('calendar_events')
+    await cache.clearCache('inbox')
+    await cache.clearCache('active')
+    await cache.clearCache('upcoming')
+    await cache.clearCache('logbook')
+    await cache.clearCache('daily_notes')
+    await calendarCache.clearCache(getCalendarEventsKey(calendarUrls))
     // Clear week task caches
-    loadedWeeks.value.forEach((weekKey) => {
-      cache.clearCache(`week-tasks-${weekKey}`)
-    })
+    await Promise.all(
+      Array.from(loadedWeeks.value, (weekKey) => cache.clearCache(`week-tasks-${weekKey}`)),
+    )
     logbookTasks.value = []
     dailyNotesDoneTasks.value = []
     loadedWeeks.value = new Set()
     await initializeTasks(calendarUrls, true)
   }
 
-  const clearAllCache = () => {
-    cache.clearAllCache()
+  const clearAllCache = async () => {
+    await cache.clearAllCache()
+    await calendarCache.clearAllCache()
+  }
+
+  const taskLists = [inboxTasks, activeTasks, upcomingTasks, logbookTasks, dailyNotesDoneTasks]
+
+  const findPlacements = (taskId: string): TaskPlacement[] => {
+    return taskLists.flatMap((list) => {
+      const index = list.value.findIndex((t) => t.id === taskId)
+      return index === -1 ? [] : [{ list, index, task: list.value[index]! }]
+    })
+  }
+
+  // Parse YYYY-MM-DD (or an ISO timestamp) as a local date
+  const parseLocalDate = (date: string): Date => new Date(`${date.slice(0, 10)}T00:00:00`)
+
+  // Which lists a task belongs in, mirroring the API's inbox/active/upcoming/logbook scopes
+  const getTargetLists = (task: CraftTask): Ref<CraftTask[]>[] => {
+    const state = task.taskInfo?.state || 'todo'
+    if (state !== 'todo') {
+      const lists = [logbookTasks]
+      const date = task.location?.type === 'dailyNote' ? task.location.date : undefined
+      if (date && loadedWeeks.value.has(getWeekKey(parseLocalDate(date)))) {
+        lists.push(dailyNotesDoneTasks)
+      }
+      return lists
+    }
+
+    const today = formatDateStr(new Date())
+    const scheduleDate = task.taskInfo?.scheduleDate
+    const deadlineDate = task.taskInfo?.deadlineDate
+    const lists: Ref<CraftTask[]>[] = []
+    if (task.location?.type === 'inbox') lists.push(inboxTasks)
+    if ((scheduleDate && scheduleDate <= today) || (deadlineDate && deadlineDate <= today)) {
+      lists.push(activeTasks)
+    } else if (scheduleDate && scheduleDate > today) {
+      lists.push(upcomingTasks)
+    }
+    return lists
+  }
+
+  const removeFromLists = (taskId: string) => {
+    taskLists.forEach((list) => {
+      if (list.value.some((t) => t.id === taskId)) {
+        list.value = list.value.filter((t) => t.id !== taskId)
+      }
+    })
+  }
+
+  // Move a task into the lists it now belongs to, keeping its old position where possible
+  const placeTask = (task: CraftTask, previous: TaskPlacement[]) => {
+    removeFromLists(task.id)
+    getTargetLists(task).forEach((list) => {
+      const index = previous.find((p) => p.list === list)?.index ?? 0
+      const items = [...list.value]
+      items.splice(Math.min(index, items.length), 0, task)
+      list.value = items
+    })
+    tasksStore.setAllTasks(inboxTasks.value, activeTasks.value, upcomingTasks.value)
   }
 
+  const restoreTask = (taskId: string, placements: TaskPlacement[]) => {
+    removeFromLists(taskId)
+    placements.forEach(({ list, index, task }) => {
+      const items = [...list.value]
+      items.splice(Math.min(index, items.length), 0, task)
+      list.value = items
+    })
+    tasksStore.setAllTasks(inboxTasks.value, activeTasks.value, upcomingTasks.value)
+  }
+
+  // Drop every cached list the task could appear in, before or after a write
+  const invalidateTaskCaches = async (...tasks: CraftTask[]) => {
+    const clearing = ['inbox', 'active', 'upcoming', 'logbook'].map((key) => cache.clearCache(key))
+    tasks.forEach((task) => {
+      const dates = [task.location?.date, task.taskInfo?.scheduleDate, task.completedAt]
+      dates.forEach((date) => {
+        if (date) clearing.push(cache.clearCache(`week-tasks-${getWeekKey(parseLocalDate(date))}`))
+      })
+      if (task.location?.documentId) {
+        clearing.push(documentTasksCache.clearCache(`document-${task.location.documentId}`))
+      }
+    })
+    await Promise.all(clearing)
+  }
+
+  /**
+   * Write task changes back to Craft.
+   * The change is applied to the store immediately and rolled back if the API call fails,
+   * in which case the CraftApiError is rethrown for the caller to report.
+   */
+  const updateTask = async (task: CraftTask, changes: CraftTaskChanges): Promise<CraftTask> => {
+    if (pendingTaskIds.value.has(task.id)) {
+      throw new Error('This task is still being saved')
+    }
+
+    const placements = findPlacements(task.id)
+    const original = placements[0]?.task || task
+    const optimistic = applyTaskChanges(original, changes)
+
+    pendingTaskIds.value = new Set(pendingTaskIds.value).add(task.id)
+    placeTask(optimistic, placements)
+
+    try {
+      const saved = await updateCraftTask(task.id, changes)
+      const result = saved ? { ...optimistic, ...saved } : optimistic
+      if (saved) placeTask(result, findPlacements(task.id))
+      await invalidateTaskCaches(original, result)
+      return result
+    } catch (error) {
+      restoreTask(task.id, placements)
+      throw error
+    } finally {
+      const pending = new Set(pendingTaskIds.value)
+      pending.delete(task.id)
+      pendingTaskIds.value = pending
+    }
+  }
+
+  const setTaskState = (task: CraftTask, state: 'todo' | 'done' | 'canceled') => {
+    return updateTask(task, { state })
+  }
+
+  // Create a task through the API; it is added to the store once Craft confirms it
+  const addTask = async (newTask: NewCraftTask): Promise<CraftTask | null> => {
+    const created = await createCraftTask(newTask)
+    if (created) {
+      placeTask(created, [])
+      await invalidateTaskCaches(created)
+    }
+    if (newTask.location.type === 'document') {
+      await documentTasksCache.clearCache(`document-${newTask.location.documentId}`)
+    }
+    return created
+  }
+
+  const isTaskPending = (taskId: string): boolean => {
+    return pendingTaskIds.value.has(taskId)
+  }
+
+  // Replace the done tasks of one week of daily notes
+  const replaceWeekTasks = (weekKey: string, tasks: CraftTask[]) => {
+    const ids = new Set(tasks.map((task) => task.id))
+    const kept = dailyNotesDoneTasks.value.filter((task) => {
+      if (ids.has(task.id)) return false
+      const date = task.location?.type === 'dailyNote' ? task.location.date : undefined
+      return !date || getWeekKey(parseLocalDate(date)) !== weekKey
+    })
+    dailyNotesDoneTasks.value = [...kept, ...tasks]
+  }
+
+  // Views whose cache another tab invalidated, reloaded unless that tab refills them first
+  const staleKeys = new Set<string>()
+  let reloadTimeout: ReturnType<typeof setTimeout> | null = null
+
+  const reloadStaleViews = async () => {
+    reloadTimeout = null
+    // Wait for our own writes to settle, so optimistic updates aren't overwritten
+    if (pendingTaskIds.value.size > 0) {
+      reloadTimeout = setTimeout(reloadStaleViews, REMOTE_RELOAD_DELAY_MS)
+      return
+    }
+
+    const keys = [...staleKeys]
+    staleKeys.clear()
+    await Promise.all(
+      keys.map(async (key) => {
+        try {
+          if (key === 'inbox' || key === 'active' || key === 'upcoming') {
+            taskListRefs[key].value = await loadTaskType(key)
+            tasksStore.setAllTasks(inboxTasks.value, activeTasks.value, upcomingTasks.value)
+          } else if (key === 'logbook') {
+            await loadLogbook()
+          } else if (key === 'daily_notes') {
+            await loadDailyNotes()
+          } else if (key.startsWith('week-tasks-')) {
+            const weekKey = key.slice('week-tasks-'.length)
+            const weekStart = weekStarts.get(weekKey)
+            if (!weekStart) return
+            loadedWeeks.value.delete(weekKey)
+            replaceWeekTasks(weekKey, [])
+            await loadWeekTasks(weekStart)
+          }
+        } catch (error) {
+          console.error(`Error reloading ${key} after a change in another tab:`, error)
+        }
+      }),
+    )
+  }
+
+  const markStale = (keys: string[]) => {
+    keys.forEach((key) => staleKeys.add(key))
+    if (!reloadTimeout && staleKeys.size > 0) {
+      reloadTimeout = setTimeout(reloadStaleViews, REMOTE_RELOAD_DELAY_MS)
+    }
+  }
+
+  // Keys of the views this tab has loaded
+  const loadedKeys = (): string[] => [
+    'inbox',
+    'active',
+    'upcoming',
+    'daily_notes',
+    ...(logbookTasks.value.length > 0 ? ['logbook'] : []),
+    ...Array.from(loadedWeeks.value, (weekKey) => `week-tasks-${weekKey}`),
+  ]
+
+  // Pick up task lists fetched by other tabs. Lists they invalidate are marked stale and
+  // reloaded here. Skipped while this tab has writes in flight, so optimistic updates
+  // aren't overwritten.
+  cache.onRemoteChange<unknown>((key, data) => {
+    if (!data) {
+      markStale(key ? loadedKeys().filter((loaded) => loaded === key) : loadedKeys())
+      return
+    }
+    if (!key || pendingTaskIds.value.size > 0) return
+    staleKeys.delete(key)
+    if (key === 'inbox' || key === 'active' || key === 'upcoming') {
+      taskListRefs[key].value = data as CraftTask[]
+      tasksStore.setAllTasks(inboxTasks.value, activeTasks.value, upcomingTasks.value)
+    } else if (key === 'logbook') {
+      logbookTasks.value = data as CraftTask[]
+    } else if (key === 'daily_notes') {
+      dailyNotes.value = data as Map<string, CraftDocument>
+    } else if (key.startsWith('week-tasks-')) {
+      const weekKey = key.slice('week-tasks-'.length)
+      if (loadedWeeks.value.has(weekKey)) replaceWeekTasks(weekKey, data as CraftTask[])
+    }
+  })
+
+  calendarCache.onRemoteChange<CalendarEvent[]>((key, events) => {
+    if (key !== null && key === calendarEventsKey && events) {
+      calendarEvents.value = events
+    }
+  })
+
   return {
     inboxTasks: computed(() => inboxTasks.value),
     activeTasks: computed(() => activeTasks.value),
@@ -326,6 +685,12 @@ export const useTasksApiStore = defineStore('tasksApi', () => {
     loadLogbook,
     loadWeekTasks,
     isWeekLoaded,
+    loadDailyNotes,
+    loadCalendarEvents,
     clearAllCache,
+    updateTask,
+    setTaskState,
+    addTask,
+    isTaskPending,
   }
 })
@@ -1,30 +1,47 @@
-export interface Widget {
+/**
+ * Payload of `widget.data`, per widget type.
+ * Each widget definition in src/components/widgets/definitions adds its own entry through
+ * module augmentation, so a new widget type doesn't need changes here. Every TypeScript
+ * project that uses widget types must include the definitions, or `WidgetType` is `never`.
+ */
+export interface WidgetDataMap {}
+
+export type WidgetType = keyof WidgetDataMap
+
+/**
+ * Data stored by the widget container itself, available on every widget type
+ */
+export interface CommonWidgetData {
+  draggingEnabled?: boolean
+  /** Shares selections with the other linked widgets of the pane (see usePaneContext) */
+  linked?: boolean
+}
+
+export type WidgetData<T extends WidgetType = WidgetType> = WidgetDataMap[T] & CommonWidgetData
+
+export interface WidgetPosition {
+  x: number
+  y: number
+  w: number
+  h: number
+}
+
+export interface Widget<T extends WidgetType = WidgetType> {
   id: string
-  type:
-    | 'markdown'
-    | 'clock'
-    | 'notes'
-    | 'tasks'
-    | 'collection'
-    | 'daily-note'
-    | 'pin-block'
-    | 'pin-url'
-    | 'stats'
-    | 'task-stats'
-    | 'collection-chart'
-    | 'graph'
-    | 'bookmark'
-    | 'quote'
-    | 'rss'
-    | 'pomodoro'
-    | 'document-tasks'
-    | 'stopwatch'
-    | 'iframe'
+  type: T
   x: number
   y: number
   w: number
   h: number
   title: string
   color?: string
-  data?: any
+  data?: WidgetData<T>
+  /**
+   * Positions on smaller screens, once the pane has been arranged by hand at that size.
+   * `x/y/w/h` above are the desktop position.
+   */
+  layouts?: {
+    tablet?: WidgetPosition
+    mobile?: WidgetPosition
+  }
 }
@@ -0,0 +1,46 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import {
+  clearCacheStorage,
+  getCacheEntry,
+  listCacheEntryMeta,
+  scheduleCacheBudget,
+  setCacheEntry,
+} from '../cacheStorage'
+
+// jsdom has no IndexedDB, so these run against the in-memory fallback
+describe('cache budgets', () => {
+  afterEach(async () => {
+    vi.useRealTimers()
+    await clearCacheStorage()
+  })
+
+  it('keeps sizes and access times as metadata', async () => {
+    await setCacheEntry('ns-a', 'x'.repeat(100))
+
+    const [meta] = await listCacheEntryMeta('ns-')
+    expect(meta).toMatchObject({ key: 'ns-a', size: 102 })
+  })
+
+  it('evicts the least recently used entries once per write batch', async () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(1000)
+    await setCacheEntry('ns-old', 'x'.repeat(100))
+    vi.setSystemTime(2000)
+    await setCacheEntry('ns-newer', 'x'.repeat(100))
+    vi.setSystemTime(3000)
+    await setCacheEntry('ns-new', 'x'.repeat(100))
+
+    // Two writes of one batch: only the first schedules a check, both are kept
+    scheduleCacheBudget('ns-', 250, 'ns-new')
+    scheduleCacheBudget('ns-', 250, 'ns-newer')
+    expect(await getCacheEntry('ns-old')).not.toBeNull()
+
+    await vi.runAllTimersAsync()
+
+    expect(await getCacheEntry('ns-old')).toBeNull()
+    expect((await listCacheEntryMeta('ns-')).map((meta) => meta.key).sort()).toEqual([
+      'ns-new',
+      'ns-newer',
+    ])
+  })
+})
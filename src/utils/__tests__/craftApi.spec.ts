@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getCollectionItems, replaceTaskText, streamDocuments } from '../craftApi'
+
+const page = (body: object) => new Response(JSON.stringify(body), { status: 200 })
+
+describe('pagination', () => {
+  const fetchMock = vi.fn<typeof fetch>()
+  const requestedUrls = () => fetchMock.mock.calls.map(([url]) => String(url))
+
+  beforeEach(() => {
+    localStorage.setItem('craft-api-url', 'https://craft.test')
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    fetchMock.mockReset()
+    vi.unstubAllGlobals()
+    localStorage.clear()
+  })
+
+  it('follows nextCursor until the API stops returning one', async () => {
+    fetchMock
+      .mockResolvedValueOnce(page({ items: [{ id: 'a' }, { id: 'b' }], nextCursor: 'c1' }))
+      .mockResolvedValueOnce(page({ items: [{ id: 'c' }] }))
+
+    const items = await getCollectionItems('col', { pageSize: 2 })
+
+    expect(items.map((item) => item.id)).toEqual(['a', 'b', 'c'])
+    expect(requestedUrls()).toEqual([
+      'https://craft.test/collections/col/items?limit=2',
+      'https://craft.test/collections/col/items?limit=2&cursor=c1',
+    ])
+  })
+
+  it('falls back to offsets while hasMore is set or total is not reached', async () => {
+    fetchMock
+      .mockResolvedValueOnce(page({ items: [{ id: 'a' }], hasMore: true }))
+      .mockResolvedValueOnce(page({ items: [{ id: 'b' }], total: 3 }))
+      .mockResolvedValueOnce(page({ items: [{ id: 'c' }], total: 3 }))
+
+    const pages: string[][] = []
+    for await (const items of streamDocuments({ location: 'unsorted' })) {
+      pages.push(items.map((doc) => doc.id))
+    }
+
+    expect(pages).toEqual([['a'], ['b'], ['c']])
+    expect(requestedUrls()).toEqual([
+      'https://craft.test/documents?location=unsorted',
+      'https://craft.test/documents?location=unsorted&offset=1',
+      'https://craft.test/documents?location=unsorted&offset=2',
+    ])
+  })
+
+  it('stops at maxItems and shrinks the last page', async () => {
+    fetchMock
+      .mockResolvedValueOnce(page({ items: [{ id: 'a' }, { id: 'b' }], nextCursor: 'c1' }))
+      .mockResolvedValueOnce(page({ items: [{ id: 'c' }, { id: 'd' }], nextCursor: 'c2' }))
+
+    const items = await getCollectionItems('col', { pageSize: 2, maxItems: 3 })
+
+    expect(items.map((item) => item.id)).toEqual(['a', 'b', 'c'])
+    expect(requestedUrls()[1]).toBe('https://craft.test/collections/col/items?limit=1&cursor=c1')
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('stops when the API ignores the cursor and repeats a page', async () => {
+    fetchMock.mockImplementation(async () => page({ items: [{ id: 'a' }], nextCursor: 'same' }))
+
+    const items = await getCollectionItems('col')
+
+    expect(items.map((item) => item.id)).toEqual(['a'])
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe('replaceTaskText', () => {
+  it('keeps the checkbox prefix, whatever its state or case', () => {
+    expect(replaceTaskText('- [ ] Old', 'New')).toBe('- [ ] New')
+    expect(replaceTaskText('  - [x] Old', ' New ')).toBe('  - [x] New')
+    expect(replaceTaskText('- [X] Old', 'New')).toBe('- [X] New')
+    expect(replaceTaskText('- [~] Old', 'New')).toBe('- [~] New')
+  })
+
+  it('uses the text as is when there is no checkbox', () => {
+    expect(replaceTaskText('Old', 'New')).toBe('New')
+  })
+})
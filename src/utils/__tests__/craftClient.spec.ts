@@ -0,0 +1,111 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CraftApiError, fetchWithRetry, parseRetryAfter } from '../craftClient'
+
+const respond = (status: number, headers: Record<string, string> = {}) =>
+  new Response(status === 204 ? null : '{}', { status, headers })
+
+describe('parseRetryAfter', () => {
+  it('reads delta-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000)
+    expect(parseRetryAfter('0')).toBe(0)
+  })
+
+  it('reads an HTTP date relative to now', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'))
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT')).toBe(5000)
+    expect(parseRetryAfter('Wed, 31 Dec 2025 23:59:00 GMT')).toBe(0)
+    vi.useRealTimers()
+  })
+
+  it('ignores missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeNull()
+    expect(parseRetryAfter('soon')).toBeNull()
+  })
+})
+
+describe('fetchWithRetry', () => {
+  const fetchMock = vi.fn<typeof fetch>()
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.stubGlobal('fetch', fetchMock)
+  })
+
+  afterEach(() => {
+    fetchMock.mockReset()
+    vi.unstubAllGlobals()
+    vi.useRealTimers()
+  })
+
+  it('retries transient failures and resolves with the first ok response', async () => {
+    fetchMock
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new TypeError('Failed to fetch'))
+      .mockResolvedValueOnce(respond(200))
+
+    const request = fetchWithRetry('/api', {}, { retries: 3 })
+    await vi.runAllTimersAsync()
+
+    expect((await request).status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('waits for Retry-After before retrying a 429', async () => {
+    fetchMock.mockResolvedValueOnce(respond(429, { 'Retry-After': '2' }))
+    fetchMock.mockResolvedValueOnce(respond(200))
+
+    const request = fetchWithRetry('/api')
+    await vi.advanceTimersByTimeAsync(1999)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    await vi.advanceTimersByTimeAsync(1)
+
+    expect((await request).status).toBe(200)
+    expect(fetchMock).toHaveBeenCalledTimes(2)
+  })
+
+  it('gives up with a typed error once retries run out', async () => {
+    fetchMock.mockResolvedValue(respond(500))
+
+    const settled = fetchWithRetry('/api', {}, { retries: 2, action: 'fetch documents' }).catch(
+      (err) => err,
+    )
+    await vi.runAllTimersAsync()
+
+    expect(await settled).toMatchObject({
+      kind: 'server',
+      status: 500,
+      message: expect.stringContaining('Failed to fetch documents'),
+    })
+    expect(fetchMock).toHaveBeenCalledTimes(3)
+  })
+
+  it('does not replay non-idempotent requests on server errors', async () => {
+    fetchMock.mockResolvedValue(respond(502))
+
+    await expect(
+      fetchWithRetry('/api', { method: 'POST' }, { idempotent: false }),
+    ).rejects.toBeInstanceOf(CraftApiError)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('maps auth failures without retrying', async () => {
+    fetchMock.mockResolvedValue(respond(401))
+
+    await expect(fetchWithRetry('/api')).rejects.toMatchObject({ kind: 'auth', status: 401 })
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it("stops retrying when the caller's init.signal aborts during the backoff", async () => {
+    fetchMock.mockResolvedValue(respond(503))
+    const controller = new AbortController()
+
+    const settled = fetchWithRetry('/api', { signal: controller.signal }).catch((err) => err)
+    await vi.advanceTimersByTimeAsync(0)
+    controller.abort()
+
+    expect(await settled).toBe(controller.signal.reason)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fetchMock.mock.calls[0]?.[1]?.signal).toBe(controller.signal)
+  })
+})
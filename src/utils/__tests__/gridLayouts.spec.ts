@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { Widget, WidgetPosition } from '../../types/widget'
+import { getBreakpoint, getLayoutPositions } from '../gridLayouts'
+
+const widget = (id: string, position: WidgetPosition, layouts?: Widget['layouts']): Widget => ({
+  id,
+  type: 'notes',
+  title: id,
+  ...position,
+  layouts,
+})
+
+describe('getBreakpoint', () => {
+  it('picks the breakpoint of a screen width', () => {
+    expect(getBreakpoint(1440)).toBe('desktop')
+    expect(getBreakpoint(1160)).toBe('tablet')
+    expect(getBreakpoint(768)).toBe('mobile')
+  })
+})
+
+describe('getLayoutPositions', () => {
+  const widgets = [
+    widget('right', { x: 12, y: 0, w: 12, h: 4 }),
+    widget('left', { x: 0, y: 0, w: 12, h: 6 }),
+    widget('below', { x: 0, y: 6, w: 24, h: 3 }),
+  ]
+
+  it('uses the desktop positions of the widgets', () => {
+    const positions = getLayoutPositions(widgets, 'desktop')
+
+    expect(positions.get('right')).toEqual({ x: 12, y: 0, w: 12, h: 4 })
+  })
+
+  it('stacks widgets at full width in reading order on mobile', () => {
+    const positions = getLayoutPositions(widgets, 'mobile')
+
+    expect(positions.get('left')).toEqual({ x: 0, y: 0, w: 4, h: 6 })
+    expect(positions.get('right')).toEqual({ x: 0, y: 6, w: 4, h: 4 })
+    expect(positions.get('below')).toEqual({ x: 0, y: 10, w: 4, h: 3 })
+  })
+
+  it('keeps widths up to a whole row on tablet', () => {
+    const positions = getLayoutPositions(widgets, 'tablet')
+
+    expect(positions.get('left')).toEqual({ x: 0, y: 0, w: 12, h: 6 })
+    expect(positions.get('right')).toEqual({ x: 0, y: 6, w: 12, h: 4 })
+    expect(positions.get('below')).toEqual({ x: 0, y: 10, w: 12, h: 3 })
+  })
+
+  it('flows the other widgets around saved positions', () => {
+    const positions = getLayoutPositions(
+      [
+        widget('pinned', { x: 0, y: 0, w: 12, h: 4 }, { mobile: { x: 0, y: 0, w: 2, h: 2 } }),
+        widget('small', { x: 12, y: 0, w: 4, h: 2 }),
+      ],
+      'mobile',
+    )
+
+    expect(positions.get('pinned')).toEqual({ x: 0, y: 0, w: 2, h: 2 })
+    expect(positions.get('small')).toEqual({ x: 0, y: 2, w: 4, h: 2 })
+  })
+})
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { getScheduledPaneId, type PaneScheduleRule } from '../paneSchedule'
+
+const rule = (paneId: string, from: string, to: string, days: number[] = []): PaneScheduleRule => ({
+  id: paneId,
+  paneId,
+  days,
+  from,
+  to,
+})
+
+// Monday 2026-10-19 at the given time
+const monday = (hours: number, minutes = 0) => new Date(2026, 9, 19, hours, minutes)
+
+describe('getScheduledPaneId', () => {
+  const weekdays = [1, 2, 3, 4, 5]
+
+  it('matches a rule from its start up to its end', () => {
+    const rules = [rule('work', '09:00', '17:00', weekdays)]
+
+    expect(getScheduledPaneId(rules, monday(8, 59))).toBeNull()
+    expect(getScheduledPaneId(rules, monday(9))).toBe('work')
+    expect(getScheduledPaneId(rules, monday(16, 59))).toBe('work')
+    expect(getScheduledPaneId(rules, monday(17))).toBeNull()
+  })
+
+  it('skips days the rule does not apply to', () => {
+    const rules = [rule('weekend', '00:00', '23:59', [0, 6])]
+
+    expect(getScheduledPaneId(rules, monday(12))).toBeNull()
+    expect(getScheduledPaneId(rules, new Date(2026, 9, 18, 12))).toBe('weekend')
+  })
+
+  it('picks the first matching rule', () => {
+    const rules = [rule('focus', '10:00', '12:00'), rule('work', '09:00', '17:00')]
+
+    expect(getScheduledPaneId(rules, monday(11))).toBe('focus')
+    expect(getScheduledPaneId(rules, monday(13))).toBe('work')
+  })
+
+  it('covers the whole day when start and end are the same', () => {
+    expect(getScheduledPaneId([rule('home', '00:00', '00:00', [1])], monday(23, 30))).toBe('home')
+  })
+
+  it('runs past midnight on the day the rule started', () => {
+    // Friday night to Saturday morning, but not Sunday night to Monday morning
+    const rules = [rule('night', '22:00', '06:00', [5])]
+
+    expect(getScheduledPaneId(rules, new Date(2026, 9, 23, 23))).toBe('night')
+    expect(getScheduledPaneId(rules, new Date(2026, 9, 24, 5, 59))).toBe('night')
+    expect(getScheduledPaneId(rules, new Date(2026, 9, 24, 6))).toBeNull()
+    expect(getScheduledPaneId(rules, monday(2))).toBeNull()
+  })
+})
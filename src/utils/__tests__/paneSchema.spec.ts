@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest'
+import { migratePanesDocument, PANES_SCHEMA_VERSION } from '../paneSchema'
+
+// Loading every widget component isn't needed to validate widget types
+vi.mock('../../components/widgets/registry', () => ({
+  getWidgetDefinition: (type: string) => (['notes', 'clock'].includes(type) ? {} : undefined),
+}))
+
+const notes = { id: 'w1', type: 'notes', title: 'Notes', x: 0, y: 0, w: 6, h: 4, data: {} }
+
+describe('migratePanesDocument', () => {
+  it('upgrades a version 0 panes array to the current version', () => {
+    const document = migratePanesDocument([{ id: 'p1', name: 'Work', widgets: [notes] }])
+
+    expect(document).toEqual({
+      version: PANES_SCHEMA_VERSION,
+      panes: [{ id: 'p1', name: 'Work', widgets: [notes] }],
+      quarantine: [],
+    })
+  })
+
+  it('keeps a current document as it is', () => {
+    const saved = {
+      version: PANES_SCHEMA_VERSION,
+      panes: [{ id: 'p1', name: 'Work', widgets: [notes] }],
+      quarantine: [{ item: 'x', reason: 'Missing id', quarantinedAt: 1 }],
+    }
+
+    expect(migratePanesDocument(saved)).toEqual(saved)
+  })
+
+  it('throws on a document from a newer version', () => {
+    expect(() => migratePanesDocument({ version: PANES_SCHEMA_VERSION + 1, panes: [] })).toThrow(
+      /newer version/,
+    )
+  })
+
+  it('quarantines widgets that fail validation', () => {
+    const unknownType = { ...notes, id: 'w2', type: 'gone' }
+    const noPosition = { ...notes, id: 'w3', x: 'left' }
+
+    const document = migratePanesDocument([
+      { id: 'p1', name: 'Work', widgets: [notes, unknownType, noPosition] },
+    ])
+
+    expect(document.panes[0]?.widgets).toEqual([notes])
+    expect(document.quarantine).toMatchObject([
+      { paneId: 'p1', item: unknownType, reason: 'Unknown widget type "gone"' },
+      { paneId: 'p1', item: noPosition, reason: 'Invalid x' },
+    ])
+  })
+
+  it('reads corrupt input as a document without panes', () => {
+    expect(migratePanesDocument('not a dashboard')).toEqual({
+      version: PANES_SCHEMA_VERSION,
+      panes: [],
+      quarantine: [],
+    })
+    expect(migratePanesDocument(null).panes).toEqual([])
+  })
+
+  it('quarantines entries that are not panes and drops malformed quarantine entries', () => {
+    const document = migratePanesDocument({
+      version: PANES_SCHEMA_VERSION,
+      panes: [42, { widgets: 'none' }],
+      quarantine: ['broken'],
+    })
+
+    expect(document.panes).toMatchObject([{ name: 'Untitled', widgets: [] }])
+    expect(document.quarantine).toMatchObject([{ item: 42, reason: 'Not a pane object' }])
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuickTask, quickTaskMarkdown } from '../quickTask'
+
+// Monday
+const now = new Date(2026, 9, 19, 9, 30)
+
+describe('parseQuickTask', () => {
+  it('parses dates, tags, a deadline and a target', () => {
+    expect(parseQuickTask('Call Ana at 3pm tomorrow #work !deadline fri @inbox', now)).toEqual({
+      text: 'Call Ana at 3pm',
+      tags: ['work'],
+      scheduleDate: '2026-10-20',
+      deadlineDate: '2026-10-23',
+      target: { type: 'inbox' },
+    })
+  })
+
+  it.each([
+    ['Watch the sun rise'],
+    ['Prepare for SAT exam'],
+    ['Plan next month budget'],
+    ['Buy 2 may flowers'],
+  ])('leaves date-like words in the middle of "%s" in the text', (input) => {
+    expect(parseQuickTask(input, now)).toEqual({ text: input, tags: [] })
+  })
+
+  it('does not take a number for a tag', () => {
+    expect(parseQuickTask('Fix issue #123 today', now)).toEqual({
+      text: 'Fix issue #123',
+      tags: [],
+      scheduleDate: '2026-10-19',
+    })
+  })
+
+  it('reads a date after a marker anywhere', () => {
+    expect(parseQuickTask('Submit report by fri to Ana', now)).toMatchObject({
+      text: 'Submit report to Ana',
+      scheduleDate: '2026-10-23',
+    })
+    expect(parseQuickTask('Buy flowers on 2 may for mum', now).scheduleDate).toBe('2027-05-02')
+  })
+
+  it('reads full weekday names only after a marker or at the end', () => {
+    expect(parseQuickTask('Fix the Friday report for Ana', now)).toEqual({
+      text: 'Fix the Friday report for Ana',
+      tags: [],
+    })
+    expect(parseQuickTask('Call Ana on friday at noon', now).scheduleDate).toBe('2026-10-23')
+    expect(parseQuickTask('Call Ana at noon friday', now).scheduleDate).toBe('2026-10-23')
+  })
+
+  it('reads a date phrase that ends the text', () => {
+    expect(parseQuickTask('Plan the budget next month', now).scheduleDate).toBe('2026-11-01')
+    expect(parseQuickTask('Renew passport in 2 weeks #admin', now)).toMatchObject({
+      text: 'Renew passport',
+      tags: ['admin'],
+      scheduleDate: '2026-11-02',
+    })
+  })
+
+  it('accepts weekday abbreviations in deadlines and daily note targets', () => {
+    expect(parseQuickTask('Pay rent !sat @tue', now)).toMatchObject({
+      text: 'Pay rent',
+      deadlineDate: '2026-10-24',
+      target: { type: 'dailyNote', date: '2026-10-20' },
+    })
+  })
+
+  it('names a document target', () => {
+    expect(parseQuickTask('Review @"Team Notes"', now).target).toEqual({
+      type: 'document',
+      name: 'Team Notes',
+    })
+  })
+})
+
+describe('quickTaskMarkdown', () => {
+  it('puts the tags after the text', () => {
+    expect(quickTaskMarkdown(parseQuickTask('#work Fix issue #123', now))).toBe(
+      'Fix issue #123 #work',
+    )
+  })
+})
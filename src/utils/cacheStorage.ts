@@ -0,0 +1,392 @@
+import { isProxy, toRaw } from 'vue'
+import { broadcastCacheChange } from './cacheSync'
+
+/**
+ * IndexedDB storage for API cache entries.
+ * Values are stored with the structured clone algorithm, so Dates, Maps and Sets come
+ * back as they were saved. Falls back to an in-memory store when IndexedDB is unavailable
+ * (e.g. some private browsing modes).
+ * Writes are announced to other tabs through cacheSync.
+ *
+ * Each namespace (cache prefix) has a size budget. When a write takes a namespace over
+ * its budget, or the browser quota is exceeded, the least recently used entries are evicted.
+ * Sizes and access times are also kept in a separate store, so budgets can be checked
+ * without reading every cached value.
+ */
+
+export interface CacheEntry<T = unknown> {
+  key: string
+  data: T
+  timestamp: number
+  // Approximate size in bytes and last read/write time, for LRU eviction
+  // (missing on entries written before eviction existed)
+  size?: number
+  lastAccessed?: number
+}
+
+// Size and last access of an entry, stored apart from its data
+export interface CacheEntryMeta {
+  key: string
+  size: number
+  lastAccessed: number
+}
+
+// Size budgets per namespace prefix, without the profile prefix
+export const DEFAULT_CACHE_BUDGET_BYTES = 5 * 1024 * 1024
+export const CACHE_BUDGETS: Record<string, number> = {
+  'daily-note-cache-': 1024 * 1024,
+  'document-tasks-cache-': 1024 * 1024,
+  'graph-cache-': 10 * 1024 * 1024,
+  'tags-cache-': 2 * 1024 * 1024,
+}
+
+export const getCacheBudget = (prefix: string): number => {
+  return CACHE_BUDGETS[prefix] ?? DEFAULT_CACHE_BUDGET_BYTES
+}
+
+// Reads only bump lastAccessed once per interval, to avoid a write on every read
+const TOUCH_INTERVAL_MS = 60 * 1000
+// Writes made within this window are checked against their budget together
+const BUDGET_CHECK_DELAY_MS = 1000
+
+const DB_NAME = 'craftboard-cache'
+const DB_VERSION = 2
+const STORE_NAME = 'entries'
+const META_STORE_NAME = 'meta'
+const MIGRATION_FLAG_KEY = 'cache-migrated-to-indexeddb'
+
+let dbPromise: Promise<IDBDatabase | null> | null = null
+const memoryStore = new Map<string, CacheEntry>()
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+// Vue reactive proxies can't be cloned into IndexedDB, so unwrap them (deeply)
+export const toStorable = <T>(value: T): T => {
+  const raw = isProxy(value) ? toRaw(value) : value
+  if (Array.isArray(raw)) {
+    return raw.map((item) => toStorable(item)) as T
+  }
+  if (raw instanceof Map) {
+    return new Map(Array.from(raw, ([key, item]) => [key, toStorable(item)])) as T
+  }
+  if (raw instanceof Set) {
+    return new Set(Array.from(raw, (item) => toStorable(item))) as T
+  }
+  if (raw && typeof raw === 'object' && Object.getPrototypeOf(raw) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(raw).map(([key, item]) => [key, toStorable(item)]),
+    ) as T
+  }
+  return raw
+}
+
+// One-time move of the old localStorage `*-cache-` entries into IndexedDB
+const migrateLocalStorageCache = async (db: IDBDatabase) => {
+  if (localStorage.getItem(MIGRATION_FLAG_KEY)) return
+
+  const keys = Object.keys(localStorage).filter((key) => key.includes('-cache-'))
+  if (keys.length > 0) {
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+    const store = transaction.objectStore(STORE_NAME)
+    const metaStore = transaction.objectStore(META_STORE_NAME)
+    for (const key of keys) {
+      // Calendar events lost their Dates in JSON; let them be fetched again
+      if (key.endsWith('calendar_events')) continue
+      try {
+        const { data, timestamp } = JSON.parse(localStorage.getItem(key) || '')
+        if (typeof timestamp === 'number') {
+          const entry: CacheEntry = { key, data, timestamp }
+          store.put(entry)
+          metaStore.put(toMeta(entry))
+        }
+      } catch {
+        // Unreadable entries are simply dropped
+      }
+    }
+    await transactionDone(transaction)
+    keys.forEach((key) => localStorage.removeItem(key))
+  }
+
+  localStorage.setItem(MIGRATION_FLAG_KEY, '1')
+}
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      if (typeof indexedDB === 'undefined') return null
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+        request.onupgradeneeded = () => {
+          const db = request.result
+          if (!db.objectStoreNames.contains(STORE_NAME)) {
+            db.createObjectStore(STORE_NAME, { keyPath: 'key' })
+          }
+          if (!db.objectStoreNames.contains(META_STORE_NAME) && request.transaction) {
+            createMetaStore(db, request.transaction)
+          }
+        }
+        const db = await requestToPromise(request)
+        try {
+          await migrateLocalStorageCache(db)
+        } catch (err) {
+          console.error('Error migrating cache to IndexedDB:', err)
+        }
+        return db
+      } catch (err) {
+        console.warn('IndexedDB unavailable, using in-memory cache:', err)
+        return null
+      }
+    })()
+  }
+  return dbPromise
+}
+
+const toMeta = (entry: CacheEntry): CacheEntryMeta => ({
+  key: entry.key,
+  size: entry.size ?? getCacheEntrySize(entry),
+  lastAccessed: entry.lastAccessed ?? entry.timestamp,
+})
+
+// Version 2 adds the meta store; fill it from the entries written before
+const createMetaStore = (db: IDBDatabase, transaction: IDBTransaction) => {
+  const metaStore = db.createObjectStore(META_STORE_NAME, { keyPath: 'key' })
+  const cursorRequest = transaction.objectStore(STORE_NAME).openCursor()
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    metaStore.put(toMeta(cursor.value as CacheEntry))
+    cursor.continue()
+  }
+}
+
+const isQuotaExceeded = (err: unknown) => {
+  return err instanceof DOMException && err.name === 'QuotaExceededError'
+}
+
+// Record a read for LRU, in its own transaction so a concurrent write isn't overwritten
+const touchEntry = (db: IDBDatabase | null, key: string) => {
+  const now = Date.now()
+  if (!db) {
+    const entry = memoryStore.get(key)
+    if (entry) entry.lastAccessed = now
+    return
+  }
+  const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+  const store = transaction.objectStore(STORE_NAME)
+  const request = store.get(key)
+  request.onsuccess = () => {
+    const entry = request.result as CacheEntry | undefined
+    if (!entry) return
+    const touched = { ...entry, lastAccessed: now }
+    store.put(touched)
+    transaction.objectStore(META_STORE_NAME).put(toMeta(touched))
+  }
+}
+
+export const getCacheEntry = async <T>(key: string): Promise<CacheEntry<T> | null> => {
+  const db = await openDatabase()
+  let entry: CacheEntry<T> | undefined
+  if (db) {
+    const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+    entry = await requestToPromise<CacheEntry<T> | undefined>(store.get(key))
+  } else {
+    entry = memoryStore.get(key) as CacheEntry<T> | undefined
+  }
+  if (!entry) return null
+
+  if (Date.now() - (entry.lastAccessed ?? entry.timestamp) > TOUCH_INTERVAL_MS) {
+    touchEntry(db, key)
+  }
+  return entry
+}
+
+const putEntry = async (db: IDBDatabase, entry: CacheEntry) => {
+  const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+  transaction.objectStore(STORE_NAME).put(entry)
+  transaction.objectStore(META_STORE_NAME).put(toMeta(entry))
+  await transactionDone(transaction)
+}
+
+export const setCacheEntry = async <T>(key: string, data: T, timestamp = Date.now()) => {
+  const entry: CacheEntry<T> = { key, data: toStorable(data), timestamp, lastAccessed: Date.now() }
+  entry.size = getCacheEntrySize(entry)
+
+  const db = await openDatabase()
+  if (db) {
+    try {
+      await putEntry(db, entry)
+    } catch (err) {
+      if (!isQuotaExceeded(err)) throw err
+      // Browser quota reached: make room by evicting the least recently used entries
+      await evictLeastRecentlyUsed('', entry.size, [key])
+      await putEntry(db, entry)
+    }
+  } else {
+    memoryStore.set(key, entry)
+  }
+  broadcastCacheChange({ type: 'set', key, data: entry.data, timestamp })
+}
+
+/**
+ * Evict the least recently used entries under `prefix` until at least `bytesToFree`
+ * bytes are freed. The `keep` entries (usually the ones just written) are never evicted.
+ * Returns the evicted keys.
+ */
+const evictLeastRecentlyUsed = async (
+  prefix: string,
+  bytesToFree: number,
+  keep?: string[],
+): Promise<string[]> => {
+  const candidates = (await listCacheEntryMeta(prefix))
+    .filter((meta) => !keep?.includes(meta.key))
+    .sort((a, b) => a.lastAccessed - b.lastAccessed)
+
+  const evicted: string[] = []
+  let freed = 0
+  for (const meta of candidates) {
+    if (freed >= bytesToFree) break
+    evicted.push(meta.key)
+    freed += meta.size
+  }
+  await Promise.all(evicted.map((key) => deleteCacheEntry(key)))
+  return evicted
+}
+
+/**
+ * Keep a namespace within its size budget, evicting least recently used entries.
+ * `prefix` is the full key prefix (including the profile prefix).
+ */
+export const enforceCacheBudget = async (
+  prefix: string,
+  maxBytes: number,
+  keep?: string[],
+): Promise<string[]> => {
+  const total = (await listCacheEntryMeta(prefix)).reduce((sum, meta) => sum + meta.size, 0)
+  if (total <= maxBytes) return []
+  return evictLeastRecentlyUsed(prefix, total - maxBytes, keep)
+}
+
+// Budget checks waiting for their write batch to finish, by prefix
+const pendingBudgetChecks = new Map<string, { maxBytes: number; keep: Set<string> }>()
+
+/**
+ * Check a namespace against its budget once the current batch of writes is done,
+ * rather than after each of them. `key` is the entry just written, which is kept.
+ */
+export const scheduleCacheBudget = (prefix: string, maxBytes: number, key: string) => {
+  const pending = pendingBudgetChecks.get(prefix)
+  if (pending) {
+    pending.keep.add(key)
+    return
+  }
+  const check = { maxBytes, keep: new Set([key]) }
+  pendingBudgetChecks.set(prefix, check)
+  setTimeout(() => {
+    pendingBudgetChecks.delete(prefix)
+    enforceCacheBudget(prefix, check.maxBytes, [...check.keep]).catch((err) => {
+      console.error('Error enforcing cache budget:', err)
+    })
+  }, BUDGET_CHECK_DELAY_MS)
+}
+
+export const deleteCacheEntry = async (key: string) => {
+  const db = await openDatabase()
+  if (db) {
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+    transaction.objectStore(STORE_NAME).delete(key)
+    transaction.objectStore(META_STORE_NAME).delete(key)
+    await transactionDone(transaction)
+  } else {
+    memoryStore.delete(key)
+  }
+  broadcastCacheChange({ type: 'delete', key })
+}
+
+export const deleteCacheEntriesWithPrefix = async (prefix: string) => {
+  const db = await openDatabase()
+  if (db) {
+    const range = IDBKeyRange.bound(prefix, prefix + '\uffff')
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+    transaction.objectStore(STORE_NAME).delete(range)
+    transaction.objectStore(META_STORE_NAME).delete(range)
+    await transactionDone(transaction)
+  } else {
+    Array.from(memoryStore.keys())
+      .filter((key) => key.startsWith(prefix))
+      .forEach((key) => memoryStore.delete(key))
+  }
+  broadcastCacheChange({ type: 'delete-prefix', prefix })
+}
+
+export const clearCacheStorage = async () => {
+  const db = await openDatabase()
+  if (db) {
+    const transaction = db.transaction([STORE_NAME, META_STORE_NAME], 'readwrite')
+    transaction.objectStore(STORE_NAME).clear()
+    transaction.objectStore(META_STORE_NAME).clear()
+    await transactionDone(transaction)
+  } else {
+    memoryStore.clear()
+  }
+  broadcastCacheChange({ type: 'clear' })
+}
+
+// All entries, or only those whose key starts with `prefix`
+export const listCacheEntries = async (prefix = ''): Promise<CacheEntry[]> => {
+  const db = await openDatabase()
+  if (!db) {
+    return Array.from(memoryStore.values()).filter((entry) => entry.key.startsWith(prefix))
+  }
+  const store = db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME)
+  const range = prefix ? IDBKeyRange.bound(prefix, prefix + '\uffff') : undefined
+  return requestToPromise<CacheEntry[]>(store.getAll(range))
+}
+
+// Sizes and access times of all entries, or of those whose key starts with `prefix`
+export const listCacheEntryMeta = async (prefix = ''): Promise<CacheEntryMeta[]> => {
+  const db = await openDatabase()
+  if (!db) {
+    return Array.from(memoryStore.values())
+      .filter((entry) => entry.key.startsWith(prefix))
+      .map(toMeta)
+  }
+  const store = db.transaction(META_STORE_NAME, 'readonly').objectStore(META_STORE_NAME)
+  const range = prefix ? IDBKeyRange.bound(prefix, prefix + '\uffff') : undefined
+  return requestToPromise<CacheEntryMeta[]>(store.getAll(range))
+}
+
+// Mark entries as expired but keep their data, so they are refetched on next read
+// (and can still be served stale in the meantime)
+export const expireCacheEntries = async (keys: string[]) => {
+  const entries = await Promise.all(keys.map((key) => getCacheEntry(key)))
+  await Promise.all(
+    entries.map((entry) => (entry ? setCacheEntry(entry.key, entry.data, 0) : undefined)),
+  )
+}
+
+// Approximate size of an entry's data, as serialized JSON
+export const getCacheEntrySize = (entry: CacheEntry): number => {
+  try {
+    const json = JSON.stringify(entry.data, (_key, value) => {
+      if (value instanceof Map) return Array.from(value.entries())
+      if (value instanceof Set) return Array.from(value)
+      return value
+    })
+    return new Blob([json ?? '']).size
+  } catch {
+    return 0
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Cross-tab notifications for the API cache.
+ * Every write to the cache storage is announced on a BroadcastChannel, so stores in sibling
+ * tabs can swap in the new data instead of calling the API themselves. Messages are never
+ * delivered to the tab that sent them.
+ */
+
+export type CacheChange =
+  | { type: 'set'; key: string; data: unknown; timestamp: number }
+  | { type: 'delete'; key: string }
+  | { type: 'delete-prefix'; prefix: string }
+  | { type: 'clear' }
+
+const CHANNEL_NAME = 'craftboard-cache'
+
+// undefined until first use, null when BroadcastChannel isn't supported
+let channel: BroadcastChannel | null | undefined
+const listeners = new Set<(change: CacheChange) => void>()
+
+const getChannel = (): BroadcastChannel | null => {
+  if (channel === undefined) {
+    channel = typeof BroadcastChannel === 'undefined' ? null : new BroadcastChannel(CHANNEL_NAME)
+    channel?.addEventListener('message', (event: MessageEvent<CacheChange>) => {
+      listeners.forEach((listener) => listener(event.data))
+    })
+  }
+  return channel
+}
+
+export const broadcastCacheChange = (change: CacheChange) => {
+  try {
+    getChannel()?.postMessage(change)
+  } catch (err) {
+    console.error('Error broadcasting cache change:', err)
+  }
+}
+
+/**
+ * Listen for cache changes made in other tabs. Returns a function that removes the listener.
+ */
+export const onCacheChange = (listener: (change: CacheChange) => void): (() => void) => {
+  getChannel()
+  listeners.add(listener)
+  return () => listeners.delete(listener)
+}
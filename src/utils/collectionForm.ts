@@ -0,0 +1,221 @@
+import type {
+  CollectionItem,
+  CollectionItemInput,
+  CollectionProperty,
+  CollectionPropertyValue,
+} from './craftApi'
+
+// Form helpers for creating and editing collection items from a collection schema
+
+// A block a relation property can point to
+export interface RelationOption {
+  blockId: string
+  title: string
+}
+
+export type PropertyInputKind =
+  | 'text'
+  | 'url'
+  | 'email'
+  | 'number'
+  | 'date'
+  | 'boolean'
+  | 'select'
+  | 'multiselect'
+  | 'relation'
+
+// Value of one form input: text for most kinds, a flag for checkboxes and a list of
+// options or block IDs for multiselects and relations
+export type CollectionFormValue = string | boolean | string[]
+
+// Form state: item title plus one value per property key
+export interface CollectionFormValues {
+  title: string
+  properties: Record<string, CollectionFormValue>
+}
+
+export type CollectionFormErrors = Record<string, string>
+
+// Map a schema property type to the input used to edit it
+export const getInputKind = (prop: CollectionProperty): PropertyInputKind => {
+  const type = (prop.type || '').toLowerCase()
+  const key = prop.key.toLowerCase()
+
+  if (prop.isRelation || type === 'relation') return 'relation'
+  if (type === 'multiselect') return 'multiselect'
+  if (type === 'select' || (prop.options && prop.options.length > 0)) return 'select'
+  if (type === 'number' || type === 'integer') return 'number'
+  if (type === 'date') return 'date'
+  if (type === 'boolean' || type === 'checkbox') return 'boolean'
+  if (type === 'url' || key === 'url') return 'url'
+  if (type === 'email' || key === 'email') return 'email'
+  return 'text'
+}
+
+const emptyValue = (kind: PropertyInputKind): CollectionFormValue => {
+  switch (kind) {
+    case 'boolean':
+      return false
+    case 'multiselect':
+    case 'relation':
+      return []
+    default:
+      return ''
+  }
+}
+
+const isEmpty = (value: unknown): boolean => {
+  if (value === null || value === undefined) return true
+  if (Array.isArray(value)) return value.length === 0
+  if (typeof value === 'string') return value.trim() === ''
+  return false
+}
+
+// Build the initial form state, from an existing item when editing
+export const toFormValues = (
+  properties: CollectionProperty[],
+  item?: CollectionItem | null,
+  defaults: Record<string, unknown> = {},
+): CollectionFormValues => {
+  const values: Record<string, CollectionFormValue> = {}
+
+  for (const prop of properties) {
+    const kind = getInputKind(prop)
+    const value: unknown = item ? item.properties?.[prop.key] : defaults[prop.key]
+
+    if (value === null || value === undefined) {
+      values[prop.key] = emptyValue(kind)
+    } else if (kind === 'relation') {
+      const relations = (value as { relations?: RelationOption[] }).relations || []
+      values[prop.key] = relations.map((rel) => rel.blockId)
+    } else if (kind === 'multiselect') {
+      values[prop.key] = Array.isArray(value) ? value.map(String) : [String(value)]
+    } else if (kind === 'boolean') {
+      values[prop.key] = !!value
+    } else if (kind === 'date') {
+      values[prop.key] = String(value).slice(0, 10)
+    } else {
+      values[prop.key] = String(value)
+    }
+  }
+
+  const defaultTitle = typeof defaults.title === 'string' ? defaults.title : ''
+  return { title: item?.title ?? defaultTitle, properties: values }
+}
+
+// Validate a single property value; returns an error message or null
+export const validateProperty = (
+  prop: CollectionProperty,
+  value: unknown,
+  required = false,
+): string | null => {
+  if (isEmpty(value)) {
+    return required ? `${prop.name} is required` : null
+  }
+
+  switch (getInputKind(prop)) {
+    case 'url':
+      if (!/^https?:\/\/[^\s.]+\.[^\s]+$/i.test(String(value).trim())) {
+        return `${prop.name} must be a valid URL starting with http:// or https://`
+      }
+      return null
+    case 'email':
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(String(value).trim())) {
+        return `${prop.name} must be a valid email address`
+      }
+      return null
+    case 'number':
+      if (!Number.isFinite(Number(value))) {
+        return `${prop.name} must be a number`
+      }
+      return null
+    case 'date': {
+      const text = String(value)
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(text) || isNaN(new Date(text).getTime())) {
+        return `${prop.name} must be a date (YYYY-MM-DD)`
+      }
+      return null
+    }
+    case 'select':
+      if (prop.options && prop.options.length > 0 && !prop.options.includes(String(value))) {
+        return `${prop.name} must be one of: ${prop.options.join(', ')}`
+      }
+      return null
+    case 'multiselect': {
+      const options = prop.options || []
+      if (options.length === 0) return null
+      const selected = Array.isArray(value) ? value.map(String) : [String(value)]
+      const unknown = selected.filter((option) => !options.includes(option))
+      if (unknown.length > 0) {
+        return `${prop.name} has unknown options: ${unknown.join(', ')}`
+      }
+      return null
+    }
+    default:
+      return null
+  }
+}
+
+// Validate the whole form; errors are keyed by property key ('title' for the item title)
+export const validateForm = (
+  properties: CollectionProperty[],
+  values: CollectionFormValues,
+  requiredKeys: string[] = [],
+): CollectionFormErrors => {
+  const errors: CollectionFormErrors = {}
+
+  if (!values.title.trim()) {
+    errors.title = 'Title is required'
+  }
+
+  for (const prop of properties) {
+    const error = validateProperty(
+      prop,
+      values.properties[prop.key],
+      requiredKeys.includes(prop.key),
+    )
+    if (error) {
+      errors[prop.key] = error
+    }
+  }
+
+  return errors
+}
+
+// Convert form state into the payload sent to the API. Empty values are sent as null
+// so edits can clear a property. Relations are only sent when the form could edit them
+export const fromFormValues = (
+  properties: CollectionProperty[],
+  values: CollectionFormValues,
+  relationOptions: Record<string, RelationOption[]> = {},
+): CollectionItemInput => {
+  const payload: Record<string, CollectionPropertyValue> = {}
+
+  for (const prop of properties) {
+    const kind = getInputKind(prop)
+    const value = values.properties[prop.key]
+
+    if (kind === 'relation') {
+      const options = relationOptions[prop.key]
+      if (!options) continue
+      payload[prop.key] = {
+        relations: (Array.isArray(value) ? value : []).map((blockId) => ({
+          blockId,
+          title: options.find((option) => option.blockId === blockId)?.title || '',
+        })),
+      }
+    } else if (kind === 'boolean') {
+      payload[prop.key] = !!value
+    } else if (isEmpty(value)) {
+      payload[prop.key] = null
+    } else if (kind === 'number') {
+      payload[prop.key] = Number(value)
+    } else if (kind === 'multiselect') {
+      payload[prop.key] = Array.isArray(value) ? [...value] : [String(value)]
+    } else {
+      payload[prop.key] = String(value).trim()
+    }
+  }
+
+  return { title: values.title.trim(), properties: payload }
+}
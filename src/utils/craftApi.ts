@@ -1,3 +1,8 @@
+import { CraftApiError, fetchWithRetry, isCraftApiError, type RetryOptions } from './craftClient'
+import { profileKey } from './profiles'
+
+export { CraftApiError, isCraftApiError, type CraftApiErrorKind } from './craftClient'
+
 export interface CollectionItem {
   id: string
   title: string
@@ -46,12 +51,12 @@ let apiToken: string | null = null
 
 export const setApiToken = (token: string) => {
   apiToken = token
-  localStorage.setItem('craft-api-token', token)
+  localStorage.setItem(profileKey('craft-api-token'), token)
 }
 
 export const getApiToken = () => {
   if (!apiToken) {
-    apiToken = localStorage.getItem('craft-api-token')
+    apiToken = localStorage.getItem(profileKey('craft-api-token'))
   }
   return apiToken
 }
@@ -68,15 +73,143 @@ const getHeaders = () => {
 }
 
 export const getApiUrl = () => {
-  return localStorage.getItem('craft-api-url') || ''
+  return localStorage.getItem(profileKey('craft-api-url')) || ''
 }
 
 export const getSpaceId = () => {
-  return localStorage.getItem('craft-space-id') || ''
+  return localStorage.getItem(profileKey('craft-space-id')) || ''
 }
 
 export const setSpaceId = (spaceId: string) => {
-  localStorage.setItem('craft-space-id', spaceId)
+  localStorage.setItem(profileKey('craft-space-id'), spaceId)
+}
+
+export interface CraftRequestOptions extends RetryOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE'
+  body?: unknown
+}
+
+// In-flight GET requests keyed by URL + token. Identical concurrent calls (e.g. several
+// widgets and stores loading documents on the same pane) share one network round-trip.
+// The shared result must be treated as read-only by callers.
+const inFlightRequests = new Map<string, Promise<unknown>>()
+
+// Single entry point for Craft API calls: resolves base URL and auth headers,
+// retries transient failures and parses the JSON response.
+// Failures are thrown as CraftApiError (see craftClient.ts)
+export const craftRequest = async <T = unknown>(
+  path: string,
+  options: CraftRequestOptions = {},
+): Promise<T> => {
+  const apiUrl = getApiUrl()
+  if (!apiUrl) {
+    throw new CraftApiError('config', 'Craft API URL not configured')
+  }
+
+  const { method = 'GET', body, ...retryOptions } = options
+  const url = `${apiUrl}${path}`
+
+  const send = async (): Promise<T> => {
+    const response = await fetchWithRetry(
+      url,
+      {
+        method,
+        headers: getHeaders(),
+        body: body !== undefined ? JSON.stringify(body) : undefined,
+      },
+      { idempotent: method !== 'POST', ...retryOptions },
+    )
+    return await response.json()
+  }
+
+  // Only coalesce plain reads; requests with their own abort signal stay independent
+  if (method !== 'GET' || retryOptions.signal) {
+    return send()
+  }
+
+  const key = `${getApiToken() || ''} ${url}`
+  const pending = inFlightRequests.get(key)
+  if (pending) {
+    return pending as Promise<T>
+  }
+
+  const request = send().finally(() => {
+    inFlightRequests.delete(key)
+  })
+  inFlightRequests.set(key, request)
+  return request
+}
+
+// Pagination options shared by list endpoints (documents, collection items, tasks)
+export interface PageOptions {
+  /** Items per request; omit to let the API decide */
+  pageSize?: number
+  /** Stop once this many items have been collected */
+  maxItems?: number
+}
+
+interface PagedResponse<T> {
+  items?: T[]
+  nextCursor?: string | null
+  hasMore?: boolean
+  total?: number
+}
+
+// Iterate over every page of a list endpoint, yielding one page of items at a time.
+// Follows `nextCursor` when the API returns one, otherwise falls back to offset
+// pagination while `hasMore` is set or fewer than `total` items have been read.
+async function* paginate<T>(
+  path: string,
+  params: URLSearchParams,
+  action: string,
+  options?: PageOptions,
+): AsyncGenerator<T[]> {
+  const maxItems = options?.maxItems ?? Infinity
+  let fetched = 0
+  let cursor: string | null = null
+  let previousFirstId: string | undefined
+
+  while (fetched < maxItems) {
+    const pageParams = new URLSearchParams(params)
+    if (options?.pageSize) {
+      pageParams.set('limit', String(Math.min(options.pageSize, maxItems - fetched)))
+    }
+    if (cursor) {
+      pageParams.set('cursor', cursor)
+    } else if (fetched > 0) {
+      pageParams.set('offset', String(fetched))
+    }
+    const query = pageParams.toString() ? `?${pageParams}` : ''
+
+    const data = await craftRequest<PagedResponse<T>>(`${path}${query}`, { action })
+    const items = (data.items || []).slice(0, maxItems - fetched)
+    if (items.length === 0) return
+
+    // Guard against an API that ignores the cursor/offset and keeps returning the same page
+    const firstId = (items[0] as { id?: string }).id
+    if (firstId && firstId === previousFirstId) return
+    previousFirstId = firstId
+
+    fetched += items.length
+    yield items
+
+    if (data.nextCursor) {
+      cursor = data.nextCursor
+    } else if (data.hasMore || (data.total !== undefined && fetched < data.total)) {
+      cursor = null
+    } else {
+      return
+    }
+  }
+}
+
+// Drain a paginated iterator into a single array
+export const collectPages = async <T>(pages: AsyncIterable<T[]>): Promise<T[]> => {
+  const all: T[] = []
+  for await (const page of pages) {
+    all.push(...page)
+  }
+  return all
 }
 
 // Craft link preference: 'app' or 'web', default is 'app'
@@ -124,6 +257,39 @@ export const getCacheExpiryMs = (): number => {
   return minutes * 60 * 1000
 }
 
+// Per-source expiry overrides from Settings, keyed by cache prefix (minutes, 0 disables caching)
+export const getCacheExpiryOverrides = (): Record<string, number> => {
+  try {
+    const saved = localStorage.getItem('cache-expiry-overrides')
+    return saved ? JSON.parse(saved) : {}
+  } catch {
+    return {}
+  }
+}
+
+export const setCacheExpiryOverrides = (overrides: Record<string, number>) => {
+  localStorage.setItem('cache-expiry-overrides', JSON.stringify(overrides))
+}
+
+// Expiry for one cache namespace: the Settings override, else the store's default TTL,
+// else the global cache expiry
+export const getCacheExpiryMsFor = (prefix: string, defaultTtlMinutes?: number): number => {
+  const minutes = getCacheExpiryOverrides()[prefix] ?? defaultTtlMinutes
+  if (minutes === undefined) {
+    return getCacheExpiryMs()
+  }
+  return minutes * 60 * 1000
+}
+
+// Stale-while-revalidate: serve expired cache entries while refreshing them (default on)
+export const getStaleWhileRevalidate = (): boolean => {
+  return localStorage.getItem('cache-stale-while-revalidate') !== 'false'
+}
+
+export const setStaleWhileRevalidate = (enabled: boolean) => {
+  localStorage.setItem('cache-stale-while-revalidate', String(enabled))
+}
+
 // Legacy function names for backwards compatibility
 export const getCacheExpiryHours = (): number => {
   return Math.floor(getCacheExpiryMinutes() / 60)
@@ -224,14 +390,9 @@ export const fetchAndCacheSpaceId = async (): Promise<string | null> => {
 
   try {
     // Try to get a document with metadata to extract spaceId
-    const response = await fetch(`${apiUrl}/documents?fetchMetadata=true`, {
-      method: 'GET',
-      headers: getHeaders(),
+    const data = await craftRequest<{ items?: CraftDocument[] }>('/documents?fetchMetadata=true', {
+      action: 'fetch space ID',
     })
-
-    if (!response.ok) return null
-
-    const data = await response.json()
     const items = data.items || []
 
     // Find first document with a clickableLink
@@ -252,69 +413,41 @@ export const fetchAndCacheSpaceId = async (): Promise<string | null> => {
   }
 }
 
-export const fetchDocuments = async (options?: {
+export interface FetchDocumentsOptions extends PageOptions {
   location?: 'unsorted' | 'trash' | 'templates' | 'daily_notes'
   folderId?: string
   fetchMetadata?: boolean
-}): Promise<{ items: CraftDocument[] }> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
+}
 
+// Stream documents page by page (render the first page while the rest loads)
+export const streamDocuments = (
+  options?: FetchDocumentsOptions,
+): AsyncGenerator<CraftDocument[]> => {
   const params = new URLSearchParams()
   if (options?.location) params.append('location', options.location)
   if (options?.folderId) params.append('folderId', options.folderId)
   if (options?.fetchMetadata) params.append('fetchMetadata', 'true')
 
-  const response = await fetch(`${apiUrl}/documents?${params}`, {
-    method: 'GET',
-    headers: getHeaders(),
-  })
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch documents: ${response.statusText}`)
-  }
+  return paginate<CraftDocument>('/documents', params, 'fetch documents', options)
+}
 
-  const data = await response.json()
-  return { items: data.items || [] }
+export const fetchDocuments = async (
+  options?: FetchDocumentsOptions,
+): Promise<{ items: CraftDocument[] }> => {
+  return { items: await collectPages(streamDocuments(options)) }
 }
 
 export const fetchFolders = async (): Promise<{ items: CraftFolder[] }> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
-
-  const response = await fetch(`${apiUrl}/folders`, {
-    method: 'GET',
-    headers: getHeaders(),
+  const data = await craftRequest<{ items?: CraftFolder[] }>('/folders', {
+    action: 'fetch folders',
   })
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch folders: ${response.statusText}`)
-  }
-
-  const data = await response.json()
   return { items: data.items || [] }
 }
 
 export const listCollections = async (): Promise<Collection[]> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
-
-  const response = await fetch(`${apiUrl}/collections`, {
-    method: 'GET',
-    headers: getHeaders(),
+  const data = await craftRequest<{ items?: Collection[] }>('/collections', {
+    action: 'fetch collections',
   })
-
-  if (!response.ok) {
-    throw new Error(`Failed to fetch collections: ${response.statusText}`)
-  }
-
-  const data = await response.json()
   return data.items || []
 }
 
@@ -349,22 +482,29 @@ export const findCollectionByName = (
   return null
 }
 
-export const getCollectionSchema = async (collectionId: string): Promise<CollectionSchema> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
-
-  const response = await fetch(`${apiUrl}/collections/${collectionId}/schema`, {
-    method: 'GET',
-    headers: getHeaders(),
-  })
+// Property definition in the JSON Schema returned for a collection
+interface SchemaPropertyDefinition {
+  type?: string
+  title?: string
+  description?: string
+  items?: { type?: string }
+  properties?: { relations?: unknown }
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch collection schema: ${response.statusText}`)
+interface RawCollectionSchema {
+  properties?: {
+    items?: {
+      items?: {
+        properties?: { properties?: { properties?: Record<string, SchemaPropertyDefinition> } }
+      }
+    }
   }
+}
 
-  const rawSchema = await response.json()
+export const getCollectionSchema = async (collectionId: string): Promise<CollectionSchema> => {
+  const rawSchema = await craftRequest<RawCollectionSchema>(`/collections/${collectionId}/schema`, {
+    action: 'fetch collection schema',
+  })
 
   // Parse the JSON Schema format to extract properties
   // The schema has structure: properties.items.items.properties.properties.properties[propertyKey]
@@ -373,7 +513,7 @@ export const getCollectionSchema = async (collectionId: string): Promise<Collect
   if (rawSchema.properties?.items?.items?.properties?.properties?.properties) {
     const propsObject = rawSchema.properties.items.items.properties.properties.properties
 
-    for (const [key, propDef] of Object.entries(propsObject as Record<string, any>)) {
+    for (const [key, propDef] of Object.entries(propsObject)) {
       let type = propDef.type || 'string'
       let isRelation = false
 
@@ -394,7 +534,7 @@ export const getCollectionSchema = async (collectionId: string): Promise<Collect
       let options: string[] | undefined
       if (propDef.description) {
         const optionsMatch = propDef.description.match(/Existing options: (.+)/)
-        if (optionsMatch) {
+        if (optionsMatch?.[1]) {
           options = optionsMatch[1]
             .split(',')
             .map((opt: string) => opt.trim().replace(/^"|"$/g, ''))
@@ -415,23 +555,90 @@ export const getCollectionSchema = async (collectionId: string): Promise<Collect
   return { properties }
 }
 
-export const getCollectionItems = async (collectionId: string): Promise<CollectionItem[]> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
+export interface CollectionItemsOptions extends PageOptions {
+  maxDepth?: number
+  action?: string
+}
 
-  const response = await fetch(`${apiUrl}/collections/${collectionId}/items`, {
-    method: 'GET',
-    headers: getHeaders(),
-  })
+// Stream collection items page by page (render the first page while the rest loads)
+export const streamCollectionItems = (
+  collectionId: string,
+  options?: CollectionItemsOptions,
+): AsyncGenerator<CollectionItem[]> => {
+  const params = new URLSearchParams()
+  if (options?.maxDepth !== undefined) params.append('maxDepth', String(options.maxDepth))
+
+  return paginate<CollectionItem>(
+    `/collections/${collectionId}/items`,
+    params,
+    options?.action || 'fetch collection items',
+    options,
+  )
+}
+
+export const getCollectionItems = async (
+  collectionId: string,
+  options?: CollectionItemsOptions,
+): Promise<CollectionItem[]> => {
+  return collectPages(streamCollectionItems(collectionId, options))
+}
+
+// Value of a property when creating or updating a collection item; null clears it
+export type CollectionPropertyValue =
+  | string
+  | number
+  | boolean
+  | string[]
+  | null
+  | { relations: { blockId: string; title: string }[] }
+
+// Title and property values for creating or updating a collection item
+export interface CollectionItemInput {
+  title: string
+  properties: Record<string, CollectionPropertyValue>
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch collection items: ${response.statusText}`)
+export const createCollectionItem = async (
+  collectionId: string,
+  item: CollectionItemInput,
+): Promise<CollectionItem> => {
+  const data = await craftRequest<{ items?: CollectionItem[] }>(
+    `/collections/${collectionId}/items`,
+    {
+      method: 'POST',
+      body: { items: [item] },
+      action: 'create collection item',
+    },
+  )
+  const created = data.items?.[0]
+  if (!created) {
+    throw new CraftApiError('http', 'Failed to create collection item: empty response')
   }
+  return created
+}
 
-  const data = await response.json()
-  return data.items || []
+export const updateCollectionItem = async (
+  collectionId: string,
+  itemId: string,
+  changes: Partial<CollectionItemInput>,
+): Promise<CollectionItem | null> => {
+  const data = await craftRequest<{ items?: CollectionItem[] }>(
+    `/collections/${collectionId}/items`,
+    {
+      method: 'PUT',
+      body: { itemsToUpdate: [{ id: itemId, ...changes }] },
+      action: 'update collection item',
+    },
+  )
+  return data.items?.find((item) => item.id === itemId) || null
+}
+
+export const deleteCollectionItem = async (collectionId: string, itemId: string) => {
+  await craftRequest(`/collections/${collectionId}/items`, {
+    method: 'DELETE',
+    body: { idsToDelete: [itemId] },
+    action: 'delete collection item',
+  })
 }
 
 // Task interface
@@ -474,15 +681,14 @@ export interface CraftTask {
 }
 
 // Fetch tasks from Craft API
-export const fetchTasks = async (
-  scope?: 'inbox' | 'active' | 'upcoming' | 'logbook' | 'document',
-  documentId?: string,
-): Promise<{ items: CraftTask[] }> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
+export type TaskScope = 'inbox' | 'active' | 'upcoming' | 'logbook' | 'document'
 
+// Stream tasks page by page (e.g. a long logbook can render before it is fully loaded)
+export const streamTasks = (
+  scope?: TaskScope,
+  documentId?: string,
+  options?: PageOptions,
+): AsyncGenerator<CraftTask[]> => {
   const params = new URLSearchParams()
   if (scope) {
     params.append('scope', scope)
@@ -491,89 +697,158 @@ export const fetchTasks = async (
     params.append('documentId', documentId)
   }
 
-  const response = await fetch(`${apiUrl}/tasks?${params}`, {
-    method: 'GET',
-    headers: getHeaders(),
-  })
+  return paginate<CraftTask>('/tasks', params, 'fetch tasks', options)
+}
+
+export const fetchTasks = async (
+  scope?: TaskScope,
+  documentId?: string,
+  options?: PageOptions,
+): Promise<{ items: CraftTask[] }> => {
+  return { items: await collectPages(streamTasks(scope, documentId, options)) }
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to fetch tasks: ${response.statusText}`)
+// Fields that can be written back for an existing task.
+// Dates are YYYY-MM-DD; null clears the date
+export interface CraftTaskChanges {
+  markdown?: string
+  state?: 'todo' | 'done' | 'canceled'
+  scheduleDate?: string | null
+  deadlineDate?: string | null
+}
+
+export interface NewCraftTask {
+  markdown: string
+  location:
+    | { type: 'inbox' }
+    | { type: 'dailyNote'; date: string }
+    | { type: 'document'; documentId: string }
+  scheduleDate?: string
+  deadlineDate?: string
+}
+
+// Apply changes to a local copy of a task (used for optimistic updates)
+export const applyTaskChanges = (task: CraftTask, changes: CraftTaskChanges): CraftTask => {
+  const { markdown, state, scheduleDate, deadlineDate } = changes
+  const taskInfo = { ...task.taskInfo }
+  if (state !== undefined) taskInfo.state = state
+  if (scheduleDate !== undefined) taskInfo.scheduleDate = scheduleDate ?? undefined
+  if (deadlineDate !== undefined) taskInfo.deadlineDate = deadlineDate ?? undefined
+
+  const updated: CraftTask = { ...task, taskInfo }
+  if (markdown !== undefined) updated.markdown = markdown
+  if (state !== undefined) {
+    const now = new Date().toISOString()
+    updated.completedAt = state === 'done' ? task.completedAt || now : undefined
+    updated.canceledAt = state === 'canceled' ? task.canceledAt || now : undefined
   }
+  return updated
+}
 
-  const data = await response.json()
-  return { items: data.items || [] }
+// Replace the text of a task while keeping its "- [ ]" prefix and indentation
+export const replaceTaskText = (markdown: string, text: string): string => {
+  const prefix = markdown.match(/^\s*-\s*\[[x\s~]\]\s*/i)?.[0] || ''
+  return `${prefix}${text.trim()}`
+}
+
+const toTaskInfo = (changes: Omit<CraftTaskChanges, 'markdown'>) => {
+  const taskInfo: Record<string, string | null> = {}
+  if (changes.state !== undefined) taskInfo.state = changes.state
+  if (changes.scheduleDate !== undefined) taskInfo.scheduleDate = changes.scheduleDate
+  if (changes.deadlineDate !== undefined) taskInfo.deadlineDate = changes.deadlineDate
+  return taskInfo
+}
+
+// Update a task's state, dates or text. Resolves with the task as stored by Craft
+export const updateTask = async (
+  taskId: string,
+  changes: CraftTaskChanges,
+): Promise<CraftTask | null> => {
+  const { markdown, ...info } = changes
+  const taskInfo = toTaskInfo(info)
+
+  const data = await craftRequest<{ items?: CraftTask[] }>('/tasks', {
+    method: 'PUT',
+    body: {
+      tasksToUpdate: [
+        {
+          id: taskId,
+          ...(markdown !== undefined && { markdown }),
+          ...(Object.keys(taskInfo).length > 0 && { taskInfo }),
+        },
+      ],
+    },
+    action: 'update task',
+  })
+  return data.items?.find((task) => task.id === taskId) || null
+}
+
+// Create a task in the inbox, a daily note or a document
+export const createTask = async (task: NewCraftTask): Promise<CraftTask | null> => {
+  const taskInfo = toTaskInfo({
+    scheduleDate: task.scheduleDate,
+    deadlineDate: task.deadlineDate,
+  })
+
+  const data = await craftRequest<{ items?: CraftTask[] }>('/tasks', {
+    method: 'POST',
+    body: {
+      tasks: [
+        {
+          markdown: task.markdown,
+          location: task.location,
+          ...(Object.keys(taskInfo).length > 0 && { taskInfo }),
+        },
+      ],
+    },
+    action: 'create task',
+  })
+  return data.items?.[0] || null
 }
 
 // Get daily note document ID for a specific date
 export const getDailyNoteDocumentId = async (date: string): Promise<string | null> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
+  if (!getApiUrl()) {
+    throw new CraftApiError('config', 'Craft API URL not configured')
   }
 
   try {
     // First, try to get the document ID from the blocks endpoint (root block ID = document ID)
-    const response = await fetch(`${apiUrl}/blocks?date=${date}`, {
-      method: 'GET',
-      headers: getHeaders(),
+    const data = await craftRequest<BlockContent>(`/blocks?date=${date}`, {
+      action: 'fetch daily note',
     })
-
-    if (!response.ok) {
-      return null
-    }
-
-    const data = await response.json()
     // The root block ID is the document ID
     return data.id || null
-  } catch {
+  } catch (err) {
+    if (isCraftApiError(err, 'not-found')) {
+      return null
+    }
     // Fallback: try to get from documents endpoint
     try {
-      const response = await fetch(
-        `${apiUrl}/documents?location=daily_notes&dailyNoteDateGte=${date}&dailyNoteDateLte=${date}`,
-        {
-          method: 'GET',
-          headers: getHeaders(),
-        },
+      const data = await craftRequest<{ items?: CraftDocument[] }>(
+        `/documents?location=daily_notes&dailyNoteDateGte=${date}&dailyNoteDateLte=${date}`,
+        { action: 'fetch daily notes' },
       )
-
-      if (!response.ok) {
-        return null
-      }
-
-      const data = await response.json()
-      const items = data.items || []
-      if (items.length > 0) {
-        return items[0].id || null
-      }
+      return data.items?.[0]?.id || null
     } catch {
       return null
     }
-    return null
   }
 }
 
 // Get daily note markdown content for a specific date
 export const getDailyNote = async (date: string): Promise<string> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
-
-  const response = await fetch(`${apiUrl}/blocks?date=${date}`, {
-    method: 'GET',
-    headers: getHeaders(),
-  })
-
-  if (!response.ok) {
-    if (response.status === 404) {
+  let data: BlockContent
+  try {
+    data = await craftRequest<BlockContent>(`/blocks?date=${date}`, { action: 'fetch daily note' })
+  } catch (err) {
+    if (isCraftApiError(err, 'not-found')) {
       // Daily note doesn't exist for this date
       return ''
     }
-    throw new Error(`Failed to fetch daily note: ${response.statusText}`)
+    throw err
   }
 
-  const data = await response.json()
-
   // Extract markdown from the response
   // The response has a structure with content array containing blocks with markdown properties
   const extractMarkdown = (block: any): string[] => {
@@ -649,25 +924,18 @@ const extractTitleFromMarkdown = (markdown: string): string => {
 }
 
 export const searchDocuments = async (query: string): Promise<DocumentSearchResult[]> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
-
-  const response = await fetch(
-    `${apiUrl}/documents/search?include=${encodeURIComponent(query)}&fetchMetadata=true`,
-    {
-      method: 'GET',
-      headers: getHeaders(),
-    },
-  )
-
-  if (!response.ok) {
-    throw new Error(`Failed to search documents: ${response.statusText}`)
-  }
-
-  const data = await response.json()
-  return (data.items || []).map((item: any) => {
+  const data = await craftRequest<{
+    items?: Array<{
+      id: string
+      documentId?: string
+      markdown?: string
+      lastModifiedAt?: string
+      createdAt?: string
+    }>
+  }>(`/documents/search?include=${encodeURIComponent(query)}&fetchMetadata=true`, {
+    action: 'search documents',
+  })
+  return (data.items || []).map((item) => {
     const documentId = item.documentId || item.id
     return {
       id: documentId,
@@ -689,28 +957,24 @@ export const searchWithinDocument = async (
   documentId: string,
   query: string,
 ): Promise<BlockSearchResult[]> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
+  if (!getApiUrl()) {
+    throw new CraftApiError('config', 'Craft API URL not configured')
   }
 
   // Escape special regex characters for literal search
   const escapedQuery = query.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
 
-  const response = await fetch(
-    `${apiUrl}/blocks/search?blockId=${documentId}&pattern=${encodeURIComponent(escapedQuery)}&caseSensitive=false`,
-    {
-      method: 'GET',
-      headers: getHeaders(),
-    },
-  )
-
-  if (!response.ok) {
+  let data: { items?: BlockSearchResult[] }
+  try {
+    data = await craftRequest<{ items?: BlockSearchResult[] }>(
+      `/blocks/search?blockId=${documentId}&pattern=${encodeURIComponent(escapedQuery)}&caseSensitive=false`,
+      { action: 'search document' },
+    )
+  } catch {
     return []
   }
 
-  const data = await response.json()
-  return (data.items || []).map((item: any) => ({
+  return (data.items || []).map((item) => ({
     blockId: item.blockId,
     markdown: item.markdown || '',
   }))
@@ -727,24 +991,14 @@ export interface BlockContent {
 }
 
 export const getBlockContent = async (blockId: string): Promise<BlockContent | null> => {
-  const apiUrl = getApiUrl()
-  if (!apiUrl) {
-    throw new Error('Craft API URL not configured')
-  }
-
-  const response = await fetch(`${apiUrl}/blocks?id=${blockId}`, {
-    method: 'GET',
-    headers: getHeaders(),
-  })
-
-  if (!response.ok) {
-    if (response.status === 404) {
+  try {
+    return await craftRequest<BlockContent>(`/blocks?id=${blockId}`, { action: 'fetch block' })
+  } catch (err) {
+    if (isCraftApiError(err, 'not-found')) {
       return null
     }
-    throw new Error(`Failed to fetch block: ${response.statusText}`)
+    throw err
   }
-
-  return await response.json()
 }
 
 // Extract images from block content recursively
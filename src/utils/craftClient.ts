@@ -0,0 +1,226 @@
+/**
+ * Resilient HTTP layer for the Craft API.
+ * Every Craft request goes through `fetchWithRetry`, which retries transient failures
+ * with exponential backoff, honours `Retry-After`, caps concurrency and turns failures
+ * into typed `CraftApiError`s.
+ */
+
+export type CraftApiErrorKind =
+  | 'config' // API URL or token missing
+  | 'auth' // 401 / 403
+  | 'not-found' // 404
+  | 'rate-limited' // 429 (after retries)
+  | 'server' // 5xx (after retries)
+  | 'network' // fetch itself failed (offline, DNS, CORS...)
+  | 'http' // any other non-2xx response
+
+export class CraftApiError extends Error {
+  readonly kind: CraftApiErrorKind
+  readonly status?: number
+  readonly retryAfterMs?: number
+  readonly originalError?: unknown
+
+  constructor(
+    kind: CraftApiErrorKind,
+    message: string,
+    options?: { status?: number; retryAfterMs?: number; originalError?: unknown },
+  ) {
+    super(message)
+    this.name = 'CraftApiError'
+    this.kind = kind
+    this.status = options?.status
+    this.retryAfterMs = options?.retryAfterMs
+    this.originalError = options?.originalError
+  }
+}
+
+export const isCraftApiError = (err: unknown, kind?: CraftApiErrorKind): err is CraftApiError => {
+  return err instanceof CraftApiError && (!kind || err.kind === kind)
+}
+
+export interface RetryOptions {
+  /** Maximum number of retries after the first attempt (default 3) */
+  retries?: number
+  /** Human readable action used in error messages, e.g. 'fetch documents' */
+  action?: string
+  /**
+   * Set to false for requests that must not be replayed blindly (e.g. creating blocks).
+   * Non-idempotent requests are only retried on 429, where the server did not process them.
+   */
+  idempotent?: boolean
+  signal?: AbortSignal
+}
+
+const DEFAULT_RETRIES = 3
+const BASE_DELAY_MS = 500
+const MAX_DELAY_MS = 8000
+// Give up instead of waiting if the server asks us to back off for longer than this
+const MAX_RETRY_AFTER_MS = 60 * 1000
+const MAX_CONCURRENT_REQUESTS = 4
+
+const RETRYABLE_STATUSES = new Set([429, 500, 502, 503, 504])
+
+// Simple FIFO semaphore shared by all Craft requests
+let activeRequests = 0
+const waitingQueue: Array<() => void> = []
+
+const acquireSlot = (): Promise<void> => {
+  if (activeRequests < MAX_CONCURRENT_REQUESTS) {
+    activeRequests++
+    return Promise.resolve()
+  }
+  return new Promise((resolve) => {
+    waitingQueue.push(() => {
+      activeRequests++
+      resolve()
+    })
+  })
+}
+
+const releaseSlot = () => {
+  activeRequests--
+  const next = waitingQueue.shift()
+  if (next) next()
+}
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(signal?.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// Exponential backoff with "equal jitter": half fixed, half random
+const getBackoffDelay = (attempt: number): number => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt)
+  return exponential / 2 + Math.random() * (exponential / 2)
+}
+
+// Retry-After can be either delta-seconds or an HTTP date
+export const parseRetryAfter = (header: string | null): number | null => {
+  if (!header) return null
+  const seconds = Number(header)
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000)
+  }
+  const date = Date.parse(header)
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now())
+  }
+  return null
+}
+
+const describeStatus = (response: Response): string => {
+  return response.statusText || `HTTP ${response.status}`
+}
+
+const errorFromResponse = (
+  response: Response,
+  action: string,
+  retryAfterMs: number | null,
+): CraftApiError => {
+  const prefix = `Failed to ${action}`
+  const status = response.status
+  const options = { status, retryAfterMs: retryAfterMs ?? undefined }
+
+  if (status === 401 || status === 403) {
+    return new CraftApiError(
+      'auth',
+      `${prefix}: not authorized. Please check your API token in Settings > API.`,
+      options,
+    )
+  }
+  if (status === 404) {
+    return new CraftApiError('not-found', `${prefix}: ${describeStatus(response)}`, options)
+  }
+  if (status === 429) {
+    return new CraftApiError(
+      'rate-limited',
+      `${prefix}: rate limit reached, please try again in a moment`,
+      options,
+    )
+  }
+  if (status >= 500) {
+    return new CraftApiError('server', `${prefix}: ${describeStatus(response)}`, options)
+  }
+  return new CraftApiError('http', `${prefix}: ${describeStatus(response)}`, options)
+}
+
+/**
+ * Fetch with retries, backoff and a shared concurrency cap.
+ * Resolves with the (ok) Response or rejects with a CraftApiError.
+ * Abort errors from `options.signal` are rethrown untouched.
+ */
+export const fetchWithRetry = async (
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {},
+): Promise<Response> => {
+  const retries = options.retries ?? DEFAULT_RETRIES
+  const action = options.action || 'call Craft API'
+  // A signal in the options wins, but the caller's own `init.signal` is honoured too
+  const signal = options.signal ?? init.signal ?? undefined
+  const idempotent = options.idempotent ?? true
+
+  for (let attempt = 0; ; attempt++) {
+    // Don't start another attempt once the caller has given up
+    signal?.throwIfAborted()
+
+    let response: Response | null = null
+    let networkError: unknown = null
+
+    // Only hold a slot while the request is in flight, never while backing off
+    await acquireSlot()
+    try {
+      response = await fetch(url, { ...init, signal })
+    } catch (err) {
+      networkError = err
+    } finally {
+      releaseSlot()
+    }
+
+    if (!response) {
+      if (signal?.aborted) throw networkError
+      if (idempotent && attempt < retries) {
+        await sleep(getBackoffDelay(attempt), signal)
+        continue
+      }
+      throw new CraftApiError(
+        'network',
+        `Failed to ${action}: network error, please check your connection`,
+        { originalError: networkError },
+      )
+    }
+
+    if (response.ok) {
+      return response
+    }
+
+    const retryAfterMs =
+      response.status === 429 || response.status === 503
+        ? parseRetryAfter(response.headers.get('Retry-After'))
+        : null
+
+    const canRetry =
+      attempt < retries &&
+      (idempotent ? RETRYABLE_STATUSES.has(response.status) : response.status === 429) &&
+      (retryAfterMs === null || retryAfterMs <= MAX_RETRY_AFTER_MS)
+
+    if (!canRetry) {
+      throw errorFromResponse(response, action, retryAfterMs)
+    }
+
+    await sleep(retryAfterMs ?? getBackoffDelay(attempt), signal)
+  }
+}
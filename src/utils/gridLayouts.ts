@@ -0,0 +1,77 @@
+import type { Widget, WidgetPosition } from '../types/widget'
+
+/**
+ * Layouts of a pane per screen size.
+ * A widget's own `x/y/w/h` is its desktop position. Tablet and mobile positions are derived
+ * from the desktop layout until the pane is arranged by hand at that size; from then on they
+ * are stored in `widget.layouts`.
+ */
+
+export type Breakpoint = 'desktop' | keyof NonNullable<Widget['layouts']>
+
+export const BREAKPOINTS: Record<Breakpoint, { maxWidth: number; cols: number }> = {
+  desktop: { maxWidth: Infinity, cols: 24 },
+  tablet: { maxWidth: 1160, cols: 12 },
+  mobile: { maxWidth: 768, cols: 4 },
+}
+
+export const getBreakpoint = (width: number): Breakpoint => {
+  if (width <= BREAKPOINTS.mobile.maxWidth) return 'mobile'
+  if (width <= BREAKPOINTS.tablet.maxWidth) return 'tablet'
+  return 'desktop'
+}
+
+const overlaps = (a: WidgetPosition, b: WidgetPosition) =>
+  a.x < b.x + b.w && b.x < a.x + a.w && a.y < b.y + b.h && b.y < a.y + a.h
+
+// Top-most, then left-most spot where a widget of this size fits
+const findFreeSpot = (
+  placed: WidgetPosition[],
+  cols: number,
+  w: number,
+  h: number,
+): WidgetPosition => {
+  for (let y = 0; ; y++) {
+    for (let x = 0; x + w <= cols; x++) {
+      const spot = { x, y, w, h }
+      if (!placed.some((position) => overlaps(position, spot))) return spot
+    }
+  }
+}
+
+/**
+ * Position of every widget of a pane at the given breakpoint, keyed by widget id
+ */
+export const getLayoutPositions = (
+  widgets: Widget[],
+  breakpoint: Breakpoint,
+): Map<string, WidgetPosition> => {
+  const positions = new Map<string, WidgetPosition>()
+  if (breakpoint === 'desktop') {
+    widgets.forEach(({ id, x, y, w, h }) => positions.set(id, { x, y, w, h }))
+    return positions
+  }
+
+  const { cols } = BREAKPOINTS[breakpoint]
+  const placed: WidgetPosition[] = []
+  widgets.forEach((widget) => {
+    const saved = widget.layouts?.[breakpoint]
+    if (saved) {
+      positions.set(widget.id, saved)
+      placed.push(saved)
+    }
+  })
+
+  // Widgets without a saved position flow in desktop reading order: full width on mobile,
+  // keeping their width (up to the whole row) on tablet
+  widgets
+    .filter((widget) => !positions.has(widget.id))
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .forEach((widget) => {
+      const w = breakpoint === 'mobile' ? cols : Math.min(widget.w, cols)
+      const spot = findFreeSpot(placed, cols, w, widget.h)
+      positions.set(widget.id, spot)
+      placed.push(spot)
+    })
+  return positions
+}
@@ -5,6 +5,8 @@ export interface CalendarEvent {
   end: Date
   description?: string
   location?: string
+  /** iCal URL the event was fetched from */
+  calendarUrl?: string
 }
 
 /**
@@ -305,7 +307,7 @@ export async function fetchCalendarEvents(url: string): Promise<CalendarEvent[]>
       throw new Error(`Failed to fetch calendar: ${response.statusText}`)
     }
     const icalString = await response.text()
-    return parseICal(icalString)
+    return parseICal(icalString).map((event) => ({ ...event, calendarUrl: url }))
   } catch (error) {
     console.error('Error fetching calendar events:', error)
     throw error
@@ -0,0 +1,89 @@
+import { profileKey } from './profiles'
+
+/**
+ * Rules that pick the active pane automatically, and the panes a kiosk display rotates through.
+ * Both refer to pane ids, so they are stored per connection profile like the panes themselves.
+ */
+
+const SCHEDULE_STORAGE_KEY = 'craftboard-pane-schedule'
+const KIOSK_STORAGE_KEY = 'craftboard-kiosk'
+export const PANE_SCHEDULE_UPDATED_EVENT = 'pane-schedule-updated'
+
+export interface PaneScheduleRule {
+  id: string
+  paneId: string
+  /** Days of the week the rule applies to (0 = Sunday). Empty means every day. */
+  days: number[]
+  /** Start and end as "HH:MM". The end is exclusive; an end before the start runs past midnight. */
+  from: string
+  to: string
+}
+
+export interface PaneSchedule {
+  enabled: boolean
+  /** Checked in order; the first rule that matches wins */
+  rules: PaneScheduleRule[]
+}
+
+export interface KioskSettings {
+  /** Panes to rotate through, in order. Empty means all panes. */
+  paneIds: string[]
+  intervalSeconds: number
+}
+
+export const DEFAULT_KIOSK_INTERVAL_SECONDS = 60
+
+const readJson = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(profileKey(key))
+    return saved ? { ...fallback, ...JSON.parse(saved) } : fallback
+  } catch {
+    return fallback
+  }
+}
+
+export const getPaneSchedule = (): PaneSchedule =>
+  readJson<PaneSchedule>(SCHEDULE_STORAGE_KEY, { enabled: false, rules: [] })
+
+export const setPaneSchedule = (schedule: PaneSchedule) => {
+  localStorage.setItem(profileKey(SCHEDULE_STORAGE_KEY), JSON.stringify(schedule))
+  window.dispatchEvent(new Event(PANE_SCHEDULE_UPDATED_EVENT))
+}
+
+export const getKioskSettings = (): KioskSettings =>
+  readJson<KioskSettings>(KIOSK_STORAGE_KEY, {
+    paneIds: [],
+    intervalSeconds: DEFAULT_KIOSK_INTERVAL_SECONDS,
+  })
+
+export const setKioskSettings = (settings: KioskSettings) => {
+  localStorage.setItem(profileKey(KIOSK_STORAGE_KEY), JSON.stringify(settings))
+  window.dispatchEvent(new Event(PANE_SCHEDULE_UPDATED_EVENT))
+}
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number)
+  return (hours || 0) * 60 + (minutes || 0)
+}
+
+const appliesOn = (rule: PaneScheduleRule, day: number) =>
+  rule.days.length === 0 || rule.days.includes(day)
+
+const ruleMatches = (rule: PaneScheduleRule, date: Date): boolean => {
+  const now = date.getHours() * 60 + date.getMinutes()
+  const today = date.getDay()
+  const from = toMinutes(rule.from)
+  const to = toMinutes(rule.to)
+  // The same start and end (e.g. 00:00 to 00:00) covers the whole day
+  if (from === to) return appliesOn(rule, today)
+  if (from < to) return appliesOn(rule, today) && now >= from && now < to
+  // Past midnight: the part after midnight belongs to the day the rule started
+  if (now >= from) return appliesOn(rule, today)
+  return now < to && appliesOn(rule, (today + 6) % 7)
+}
+
+/**
+ * Pane the schedule picks at the given time, or null if no rule matches
+ */
+export const getScheduledPaneId = (rules: PaneScheduleRule[], date = new Date()): string | null =>
+  rules.find((rule) => ruleMatches(rule, date))?.paneId ?? null
@@ -0,0 +1,139 @@
+import type { Widget } from '../types/widget'
+import { getWidgetDefinition } from '../components/widgets/registry'
+
+/**
+ * Versioned format of the stored panes (`craftboard-panes`).
+ * Saved documents are upgraded one version at a time by the migrations below, both when
+ * loading and when importing a backup. Widgets that still don't look right afterwards are
+ * moved to the quarantine, so one broken widget can't take the whole grid down.
+ */
+
+export const PANES_SCHEMA_VERSION = 1
+
+export interface Pane {
+  id: string
+  name: string
+  widgets: Widget[]
+}
+
+/**
+ * A widget (or a whole saved document) that could not be loaded, kept so it isn't lost
+ */
+export interface QuarantineEntry {
+  paneId?: string
+  paneName?: string
+  item: unknown
+  reason: string
+  quarantinedAt: number
+}
+
+export interface PanesDocument {
+  version: number
+  panes: Pane[]
+  quarantine: QuarantineEntry[]
+}
+
+// Migration from version N to N + 1, keyed by N
+const migrations: Record<number, (document: unknown) => unknown> = {
+  // Version 0 stored the bare panes array
+  0: (panes) => ({ version: 1, panes: Array.isArray(panes) ? panes : [], quarantine: [] }),
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const getVersion = (document: unknown): number => {
+  return isObject(document) && typeof document.version === 'number' ? document.version : 0
+}
+
+const isQuarantineEntry = (entry: unknown): entry is QuarantineEntry =>
+  isObject(entry) && typeof entry.reason === 'string' && typeof entry.quarantinedAt === 'number'
+
+/**
+ * Why a widget can't be rendered, or null if it is fine
+ */
+const getWidgetProblem = (widget: unknown): string | null => {
+  if (!isObject(widget)) return 'Not a widget object'
+  if (typeof widget.id !== 'string' || !widget.id) return 'Missing id'
+  if (typeof widget.type !== 'string' || !getWidgetDefinition(widget.type as Widget['type'])) {
+    return `Unknown widget type "${widget.type}"`
+  }
+  for (const field of ['x', 'y', 'w', 'h']) {
+    const value = widget[field]
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return `Invalid ${field}`
+    }
+  }
+  if (typeof widget.title !== 'string') return 'Missing title'
+  if (widget.data !== undefined && widget.data !== null && !isObject(widget.data)) {
+    return 'Invalid data'
+  }
+  if (widget.layouts !== undefined) {
+    const layouts = widget.layouts
+    if (
+      !isObject(layouts) ||
+      Object.values(layouts).some(
+        (position) =>
+          !isObject(position) ||
+          ['x', 'y', 'w', 'h'].some((field) => !Number.isFinite(position[field])),
+      )
+    ) {
+      return 'Invalid layouts'
+    }
+  }
+  return null
+}
+
+/**
+ * Upgrade a saved panes document to the current version and validate it.
+ * Throws if the document comes from a newer version of the app.
+ */
+export const migratePanesDocument = (raw: unknown): PanesDocument => {
+  let document = raw
+  let version = getVersion(document)
+  if (version > PANES_SCHEMA_VERSION) {
+    throw new Error(
+      `Dashboard was saved by a newer version of Craftboard (schema ${version}, supported ${PANES_SCHEMA_VERSION})`,
+    )
+  }
+  while (version < PANES_SCHEMA_VERSION) {
+    const migrate = migrations[version]
+    if (!migrate) throw new Error(`No migration from dashboard schema ${version}`)
+    document = migrate(document)
+    version = getVersion(document)
+  }
+
+  const current = isObject(document) ? document : {}
+  const quarantine: QuarantineEntry[] = Array.isArray(current.quarantine)
+    ? current.quarantine.filter(isQuarantineEntry)
+    : []
+  const panes: Pane[] = []
+  const now = Date.now()
+
+  ;(Array.isArray(current.panes) ? current.panes : []).forEach((pane: unknown, index: number) => {
+    if (!isObject(pane)) {
+      quarantine.push({ item: pane, reason: 'Not a pane object', quarantinedAt: now })
+      return
+    }
+    const id = typeof pane.id === 'string' && pane.id ? pane.id : `pane-${now}-${index}`
+    const name = typeof pane.name === 'string' ? pane.name : 'Untitled'
+    const widgets: Widget[] = []
+    ;(Array.isArray(pane.widgets) ? pane.widgets : []).forEach((widget: unknown) => {
+      const problem = getWidgetProblem(widget)
+      if (problem) {
+        quarantine.push({
+          paneId: id,
+          paneName: name,
+          item: widget,
+          reason: problem,
+          quarantinedAt: now,
+        })
+      } else {
+        widgets.push(widget as Widget)
+      }
+    })
+    panes.push({ id, name, widgets })
+  })
+
+  return { version: PANES_SCHEMA_VERSION, panes, quarantine }
+}
@@ -0,0 +1,189 @@
+import type { Widget } from '../types/widget'
+import { getWidgetDefinition } from '../components/widgets/registry'
+import {
+  migratePanesDocument,
+  PANES_SCHEMA_VERSION,
+  type Pane,
+  type QuarantineEntry,
+} from './paneSchema'
+
+/**
+ * Sharing a single pane as a JSON file or as a link.
+ * A shared pane carries its widgets with their layout and settings. Data the widgets keep
+ * for themselves (cached totals, timer state), data that is unsafe to take from someone else
+ * (raw HTML) and anything that looks like a credential are left out. Imported panes get fresh
+ * ids, so they sit next to the existing ones, and lose any unsafe data the sender left in.
+ */
+
+export const SHARED_PANE_TYPE = 'craftboard-pane'
+// Query parameter of the dashboard route that carries a shared pane
+export const SHARED_PANE_QUERY = 'pane'
+
+export interface SharedPane {
+  type: typeof SHARED_PANE_TYPE
+  version: number
+  name: string
+  widgets: Widget[]
+}
+
+const SECRET_KEY_PATTERN =
+  /token|secret|passw(or)?d|api[-_]?key|^key$|^auth$|authoriz|signature|session/i
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const stripUrlSecrets = (value: string): string => {
+  try {
+    const url = new URL(value)
+    const secretParams = [...url.searchParams.keys()].filter((key) => SECRET_KEY_PATTERN.test(key))
+    if (!url.username && !url.password && secretParams.length === 0) return value
+    url.username = ''
+    url.password = ''
+    secretParams.forEach((key) => url.searchParams.delete(key))
+    return url.toString()
+  } catch {
+    return value
+  }
+}
+
+const stripSecrets = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(stripSecrets)
+  if (isObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !SECRET_KEY_PATTERN.test(key))
+        .map(([key, entry]) => [key, stripSecrets(entry)]),
+    )
+  }
+  if (typeof value === 'string' && /^https?:\/\//i.test(value)) return stripUrlSecrets(value)
+  return value
+}
+
+const omitKeys = (source: unknown, keys: string[]): Record<string, unknown> => {
+  const data = { ...(isObject(source) ? source : {}) }
+  keys.forEach((key) => {
+    delete data[key]
+  })
+  return data
+}
+
+const getShareableData = (widget: Widget): Widget['data'] => {
+  const definition = getWidgetDefinition(widget.type)
+  const source: unknown = definition?.shareData ? definition.shareData(widget) : widget.data
+  const keys = [...(definition?.transientData || []), ...(definition?.unsafeData || [])]
+  return stripSecrets(omitKeys(source, keys as string[])) as Widget['data']
+}
+
+// Data of a widget from a shared pane, without what the widget must not take from others
+const getImportedData = (widget: Widget): Widget['data'] => {
+  const unsafe = getWidgetDefinition(widget.type)?.unsafeData
+  if (!unsafe || !isObject(widget.data)) return widget.data
+  return omitKeys(widget.data, unsafe as string[]) as Widget['data']
+}
+
+export const toSharedPane = (pane: Pane): SharedPane => ({
+  type: SHARED_PANE_TYPE,
+  version: PANES_SCHEMA_VERSION,
+  name: pane.name,
+  widgets: pane.widgets.map((widget) => ({ ...widget, data: getShareableData(widget) })),
+})
+
+/**
+ * Turn a shared pane into a new pane of this dashboard.
+ * The shared pane goes through the same migrations and validation as saved panes;
+ * widgets that don't pass are returned as quarantine entries.
+ */
+export const createPaneFromShared = (
+  shared: unknown,
+): { pane: Pane; quarantine: QuarantineEntry[] } => {
+  if (!isObject(shared) || shared.type !== SHARED_PANE_TYPE || !Array.isArray(shared.widgets)) {
+    throw new Error('This is not a Craftboard pane')
+  }
+
+  const paneId = `pane-${Date.now()}`
+  const document = migratePanesDocument({
+    version: typeof shared.version === 'number' ? shared.version : PANES_SCHEMA_VERSION,
+    panes: [{ id: paneId, name: shared.name, widgets: shared.widgets }],
+    quarantine: [],
+  })
+  const pane = document.panes[0] || { id: paneId, name: 'Imported pane', widgets: [] }
+  pane.widgets = pane.widgets.map((widget, index) => ({
+    ...widget,
+    id: `${Date.now()}-${index}`,
+    data: getImportedData(widget),
+  }))
+  return { pane, quarantine: document.quarantine }
+}
+
+/**
+ * Question to ask before importing a pane from a link, naming the widgets it brings along
+ */
+export const getSharedPaneConfirmation = (shared: unknown): string => {
+  const name = isObject(shared) && typeof shared.name === 'string' ? shared.name : 'Untitled'
+  const counts = new Map<string, number>()
+  ;(isObject(shared) && Array.isArray(shared.widgets) ? shared.widgets : []).forEach(
+    (widget: unknown) => {
+      const type = isObject(widget) ? String(widget.type) : 'unknown'
+      const label = getWidgetDefinition(type as Widget['type'])?.name || type
+      counts.set(label, (counts.get(label) || 0) + 1)
+    },
+  )
+  const widgets = [...counts].map(([label, count]) => (count > 1 ? `${label} (${count})` : label))
+  return [
+    `Add the shared pane "${name}" to your dashboard?`,
+    widgets.length > 0 ? `Widgets: ${widgets.join(', ')}` : 'It has no widgets.',
+  ].join('\n\n')
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, (char) => char.charCodeAt(0))
+}
+
+/**
+ * Compress a shared pane into a string that fits in a URL
+ */
+export const encodeSharedPane = async (shared: SharedPane): Promise<string> => {
+  const stream = new Blob([JSON.stringify(shared)])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate-raw'))
+  return toBase64Url(new Uint8Array(await new Response(stream).arrayBuffer()))
+}
+
+export const decodeSharedPane = async (encoded: string): Promise<unknown> => {
+  const stream = new Blob([fromBase64Url(encoded)])
+    .stream()
+    .pipeThrough(new DecompressionStream('deflate-raw'))
+  return JSON.parse(await new Response(stream).text())
+}
+
+/**
+ * Link that opens the dashboard and offers to import the pane
+ */
+export const getSharedPaneLink = async (shared: SharedPane): Promise<string> => {
+  const encoded = await encodeSharedPane(shared)
+  return `${window.location.origin}${window.location.pathname}#/?${SHARED_PANE_QUERY}=${encoded}`
+}
+
+export const downloadSharedPane = (shared: SharedPane) => {
+  const blob = new Blob([JSON.stringify(shared, null, 2)], { type: 'application/json' })
+  const url = URL.createObjectURL(blob)
+  const a = document.createElement('a')
+  a.href = url
+  const slug = shared.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'pane'
+  a.download = `craftboard-pane-${slug}.json`
+  document.body.appendChild(a)
+  a.click()
+  setTimeout(() => {
+    document.body.removeChild(a)
+    URL.revokeObjectURL(url)
+  }, 100)
+}
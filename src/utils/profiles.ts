@@ -0,0 +1,107 @@
+import { deleteCacheEntriesWithPrefix } from './cacheStorage'
+
+/**
+ * Named Craft connection profiles.
+ * Each profile has its own API URL, token, space ID and collection IDs, and everything
+ * tied to a space (caches, panes, flashcard sessions) is stored under `profileKey(key)`.
+ * The default profile keeps the original un-prefixed keys, so existing setups keep working.
+ */
+
+export interface ConnectionProfile {
+  id: string
+  name: string
+}
+
+const PROFILES_KEY = 'craft-profiles'
+const ACTIVE_PROFILE_KEY = 'craft-active-profile'
+export const DEFAULT_PROFILE_ID = 'default'
+
+// Dispatched on window whenever profiles are created, renamed or deleted
+export const PROFILES_UPDATED_EVENT = 'profiles-updated'
+
+// Each tab keeps the profile it was loaded with, even if another tab switches
+let activeProfileId: string | null = null
+
+export const getProfiles = (): ConnectionProfile[] => {
+  try {
+    const saved = localStorage.getItem(PROFILES_KEY)
+    const profiles: ConnectionProfile[] = saved ? JSON.parse(saved) : []
+    if (profiles.some((profile) => profile.id === DEFAULT_PROFILE_ID)) {
+      return profiles
+    }
+    return [{ id: DEFAULT_PROFILE_ID, name: 'Default' }, ...profiles]
+  } catch (err) {
+    console.error('Error reading profiles:', err)
+    return [{ id: DEFAULT_PROFILE_ID, name: 'Default' }]
+  }
+}
+
+const saveProfiles = (profiles: ConnectionProfile[]) => {
+  localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles))
+  window.dispatchEvent(new Event(PROFILES_UPDATED_EVENT))
+}
+
+export const getActiveProfileId = (): string => {
+  if (!activeProfileId) {
+    const saved = localStorage.getItem(ACTIVE_PROFILE_KEY)
+    activeProfileId =
+      saved && getProfiles().some((profile) => profile.id === saved) ? saved : DEFAULT_PROFILE_ID
+  }
+  return activeProfileId
+}
+
+/**
+ * Storage key for space-specific data of a profile (defaults to the active one)
+ */
+export const profileKey = (key: string, profileId: string = getActiveProfileId()): string => {
+  return profileId === DEFAULT_PROFILE_ID ? key : `profile-${profileId}-${key}`
+}
+
+export const createProfile = (name: string): ConnectionProfile => {
+  const profile = { id: `p${Date.now().toString(36)}`, name: name.trim() || 'New profile' }
+  saveProfiles([...getProfiles(), profile])
+  return profile
+}
+
+export const renameProfile = (profileId: string, name: string) => {
+  const trimmed = name.trim()
+  if (!trimmed) return
+  saveProfiles(
+    getProfiles().map((profile) =>
+      profile.id === profileId ? { ...profile, name: trimmed } : profile,
+    ),
+  )
+}
+
+/**
+ * Delete a profile and all of its stored data.
+ * The default profile and the active profile can't be deleted.
+ */
+export const deleteProfile = async (profileId: string) => {
+  if (profileId === DEFAULT_PROFILE_ID || profileId === getActiveProfileId()) {
+    throw new Error('The default and the active profile cannot be deleted')
+  }
+
+  const prefix = profileKey('', profileId)
+  Object.keys(localStorage).forEach((key) => {
+    if (key.startsWith(prefix)) {
+      localStorage.removeItem(key)
+    }
+  })
+  await deleteCacheEntriesWithPrefix(prefix)
+  saveProfiles(getProfiles().filter((profile) => profile.id !== profileId))
+}
+
+/**
+ * Switch to another profile. The page is reloaded so no store, cache or pane
+ * of the previous space survives in memory.
+ */
+export const switchProfile = (profileId: string) => {
+  if (profileId === getActiveProfileId()) return
+  if (!getProfiles().some((profile) => profile.id === profileId)) {
+    throw new Error('Profile not found')
+  }
+  localStorage.setItem(ACTIVE_PROFILE_KEY, profileId)
+  activeProfileId = profileId
+  window.location.reload()
+}
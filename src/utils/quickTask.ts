@@ -0,0 +1,229 @@
+/**
+ * Parser for quick-add task input such as "Call Ana at 3pm tomorrow #work !deadline fri @inbox".
+ *
+ * - A date phrase (today, tomorrow, friday, next week, in 3 days, oct 21, 2026-10-21) sets the
+ *   schedule date when it follows `on`, `by` or `due`, or when it ends the text, so "the Friday
+ *   report" stays in the text. Weekday abbreviations such as "sat" only count after a marker.
+ *   Only the first date counts; later ones stay in the text.
+ * - `!deadline <date>`, `!due <date>` or `!<date>` sets the deadline.
+ * - `#tag` adds a tag, unless it is only digits ("issue #123"). Tags are kept in the markdown,
+ *   where Craft picks them up.
+ * - `@inbox`, `@<date>` (a daily note) or `@name` / `@"Document name"` picks where the task goes.
+ *
+ * Times have no field in Craft tasks, so "3pm" stays part of the text.
+ */
+
+export type QuickTaskTarget =
+  | { type: 'inbox' }
+  | { type: 'dailyNote'; date: string }
+  | { type: 'document'; name: string }
+
+export interface ParsedQuickTask {
+  /** Task text with the parsed tokens removed */
+  text: string
+  tags: string[]
+  scheduleDate?: string
+  deadlineDate?: string
+  /** Missing when the input doesn't name one, so the caller's default applies */
+  target?: QuickTaskTarget
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+
+// Also common words ("sun", "sat"), so they only count after a marker
+const WEEKDAY_ABBREVIATIONS: Record<string, number> = {
+  sun: 0,
+  mon: 1,
+  tue: 2,
+  tues: 2,
+  wed: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  fri: 5,
+  sat: 6,
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+const DEADLINE_KEYWORDS = ['!deadline', '!due']
+
+// Words that introduce a schedule date in the middle of the text
+const SCHEDULE_MARKERS = ['on', 'by', 'due']
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+// "oct", "octo" and "october" all map to the same month index
+const parseMonth = (word: string): number | null => {
+  if (word.length < 3) return null
+  const index = MONTHS.indexOf(word.slice(0, 3))
+  if (index === -1) return null
+  const full = new Date(2000, index, 1).toLocaleDateString('en-US', { month: 'long' })
+  return full.toLowerCase().startsWith(word) ? index : null
+}
+
+// Day of a month, this year or next year when it has already passed
+const monthDay = (month: number, day: number, now: Date): Date | null => {
+  if (day < 1 || day > 31) return null
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+  let date = new Date(now.getFullYear(), month, day)
+  if (date.getMonth() !== month) return null
+  if (date < today) date = new Date(now.getFullYear() + 1, month, day)
+  return date
+}
+
+/**
+ * Match a date phrase at the start of `words` (lowercased).
+ * Weekday abbreviations are only accepted `afterMarker`.
+ * Returns the date and how many words it spans.
+ */
+const matchDate = (
+  words: string[],
+  now: Date,
+  afterMarker: boolean,
+): { date: string; length: number } | null => {
+  const [first = '', second = '', third = ''] = words
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+
+  if (first === 'today') return { date: toDateKey(today), length: 1 }
+  if (first === 'tomorrow' || first === 'tmr')
+    return { date: toDateKey(addDays(today, 1)), length: 1 }
+
+  // A weekday means its next occurrence after today
+  const weekday = WEEKDAYS.includes(first)
+    ? WEEKDAYS.indexOf(first)
+    : afterMarker
+      ? WEEKDAY_ABBREVIATIONS[first]
+      : undefined
+  if (weekday !== undefined) {
+    const days = (weekday - today.getDay() + 7) % 7 || 7
+    return { date: toDateKey(addDays(today, days)), length: 1 }
+  }
+
+  if (first === 'next' && second === 'week') {
+    const days = (8 - today.getDay()) % 7 || 7
+    return { date: toDateKey(addDays(today, days)), length: 2 }
+  }
+  if (first === 'next' && second === 'month') {
+    return { date: toDateKey(new Date(today.getFullYear(), today.getMonth() + 1, 1)), length: 2 }
+  }
+
+  if (first === 'in' && /^\d+$/.test(second)) {
+    const amount = parseInt(second, 10)
+    if (/^days?$/.test(third)) return { date: toDateKey(addDays(today, amount)), length: 3 }
+    if (/^weeks?$/.test(third)) return { date: toDateKey(addDays(today, amount * 7)), length: 3 }
+    if (/^months?$/.test(third)) {
+      const date = new Date(today.getFullYear(), today.getMonth() + amount, today.getDate())
+      return { date: toDateKey(date), length: 3 }
+    }
+  }
+
+  const iso = first.match(/^(\d{4})-(\d{2})-(\d{2})$/)
+  if (iso) {
+    const date = new Date(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]))
+    if (date.getMonth() === Number(iso[2]) - 1 && date.getDate() === Number(iso[3]))
+      return { date: toDateKey(date), length: 1 }
+  }
+
+  // "oct 21" or "21 oct"
+  const month = parseMonth(first)
+  if (month !== null && /^\d{1,2}$/.test(second)) {
+    const date = monthDay(month, parseInt(second, 10), now)
+    if (date) return { date: toDateKey(date), length: 2 }
+  }
+  const monthAfter = parseMonth(second)
+  if (monthAfter !== null && /^\d{1,2}$/.test(first)) {
+    const date = monthDay(monthAfter, parseInt(first, 10), now)
+    if (date) return { date: toDateKey(date), length: 2 }
+  }
+
+  return null
+}
+
+const isTag = (token: string): boolean =>
+  /^#[\p{L}\p{N}_\-/]+$/u.test(token) && !/^#\d+$/.test(token)
+
+// Whether only tags, a deadline or a target follow, so a date before them still ends the text
+const endsText = (rest: string[], now: Date): boolean => {
+  const parsed = parseQuickTask(rest.join(' '), now)
+  return !parsed.text && !parsed.scheduleDate
+}
+
+export const parseQuickTask = (input: string, now = new Date()): ParsedQuickTask => {
+  const tokens = input.match(/@"[^"]*"?|\S+/g) || []
+  const lower = tokens.map((token) => token.toLowerCase())
+  const result: ParsedQuickTask = { text: '', tags: [] }
+  const textTokens: string[] = []
+
+  let index = 0
+  while (index < tokens.length) {
+    const token = tokens[index] as string
+    const word = lower[index] as string
+
+    if (isTag(token)) {
+      const tag = token.slice(1)
+      if (!result.tags.includes(tag)) result.tags.push(tag)
+      index++
+      continue
+    }
+
+    if (word.startsWith('!') && !result.deadlineDate) {
+      const isKeyword = DEADLINE_KEYWORDS.includes(word)
+      const words = isKeyword ? lower.slice(index + 1) : [word.slice(1), ...lower.slice(index + 1)]
+      const match = matchDate(words, now, true)
+      if (match) {
+        result.deadlineDate = match.date
+        index += isKeyword ? match.length + 1 : match.length
+        continue
+      }
+    }
+
+    if (word.length > 1 && word.startsWith('@') && !result.target) {
+      if (word === '@inbox') {
+        result.target = { type: 'inbox' }
+        index++
+        continue
+      }
+      const match = matchDate([word.slice(1), ...lower.slice(index + 1)], now, true)
+      if (match) {
+        result.target = { type: 'dailyNote', date: match.date }
+        index += match.length
+        continue
+      }
+      const name = token.startsWith('@"') ? token.slice(2).replace(/"$/, '') : token.slice(1)
+      if (name.trim()) {
+        result.target = { type: 'document', name: name.trim() }
+        index++
+        continue
+      }
+    }
+
+    if (!result.scheduleDate) {
+      const marked = SCHEDULE_MARKERS.includes(word)
+      const start = marked ? index + 1 : index
+      const match = matchDate(lower.slice(start), now, marked)
+      if (match && (marked || endsText(tokens.slice(start + match.length), now))) {
+        result.scheduleDate = match.date
+        index = start + match.length
+        continue
+      }
+    }
+
+    textTokens.push(token)
+    index++
+  }
+
+  result.text = textTokens.join(' ')
+  return result
+}
+
+// Markdown of the task content, with its tags at the end
+export const quickTaskMarkdown = (task: ParsedQuickTask): string =>
+  [task.text, ...task.tags.map((tag) => `#${tag}`)].filter(Boolean).join(' ')